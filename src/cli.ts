@@ -4,45 +4,267 @@
  * Verwendung:
  *   unpack <input.lsv> [outputDir]
  *   extract-lsx <input.lsv> [outputDir] - LSV direkt zu LSX (nur LSX-Dateien)
+ *   verify <input.lsv>                 - Header-MD5 und CRC32 prüfen
+ *   info <input.lsv>                   - Header-Informationen anzeigen
+ *   list <input.lsv> [--json]          - Einträge mit Kompression, Größen, Offset und CRC
+ *   pak list|extract|mods <a.pak> …    - Game-/Mod-Paks (zusammengeführt nach Priority)
+ *   pak build <modDir> [output.pak]    - Mod-Pak aus einem Projektordner bauen
  *   convert <input.lsf> [output.lsx]   - LSF zu LSX
  *   convert <input.lsx> [output.lsf]   - LSX zu LSF
+ *   convert <input.lsb> [output.lsx]   - LSB zu LSX
+ *   convert <input.lsj> [output.lsf]   - LSJ zu LSF (Formate nach Endung: .lsf, .lsb, .lsx, .lsj)
+ *   convert ... --lsf-version n        - LSF-Formatversion 1–7 für .lsf-Ausgabe
+ *   convert ... --lsf-compression <m>  - Blockkompression für .lsf-Ausgabe (none, zlib, lz4, lz4-frame, zstd)
  */
 
 import { existsSync, writeFileSync } from "node:fs";
 import { mkdirSync } from "node:fs";
 import { join, dirname } from "node:path";
-import { unpackLsv, readPackage, extractFileContent } from "./lsv/unpacker.js";
-import { packLsv, packLsvFromLsx } from "./lsv/packer.js";
+import { unpackLsvWithReport } from "./lsv/unpacker.js";
+import type { EntryIssue } from "./lsv/unpacker.js";
+import { LsvArchive } from "./lsv/archive.js";
+import { createManifest, detectCompressionFlags, writeManifest } from "./lsv/manifest.js";
+import { entryPath, globToRegExp } from "./lsv/names.js";
+import { PakSet, buildModPak, validateModProject } from "./lsv/pak.js";
+import type { BuildModPakOptions } from "./lsv/pak.js";
+import { packLsvAsync, packLsvFromLsxAsync } from "./lsv/packer.js";
+import type { PackCompression, PackCompressionRule, PackLsvOptions } from "./lsv/packer.js";
+import { CompressionMethod, PackageVersion, getCompressionMethod } from "./lsv/types.js";
+import type { CompressionLevel, PackagedFileInfo } from "./lsv/types.js";
 import { LSFReader } from "./lsf/reader.js";
+import { WorkerPool, runOrdered } from "./workers/pool.js";
 import { convertLsfToLsx } from "./lsx/lsx-writer.js";
 import { parseLsx } from "./lsx/lsx-reader.js";
 import { writeLsf } from "./lsf/writer.js";
+import type { LsfCompression, LsfVersion } from "./lsf/writer.js";
+import { LsfFormatVersion } from "./lsf/types.js";
+import type { LSFNode } from "./lsf/types.js";
+import { LSBReader } from "./lsb/reader.js";
+import { writeLsb } from "./lsb/writer.js";
+import { convertLsfToLsj } from "./lsj/lsj-writer.js";
+import { parseLsj } from "./lsj/lsj-reader.js";
 
 const args = process.argv.slice(2);
 const command = args[0];
 const inputPath = args[1];
-const outputPath = args[2];
 
 const HELP = `
 DOS2 Savegame Tools - LSV Entpacker & LSF↔LSX Konverter
 
 Verwendung:
   unpack <input.lsv> [outputDir]        - LSV entpacken (LSF-Dateien extrahieren)
+  unpack ... --continue-on-error        - Beschädigte Einträge überspringen und melden
+  unpack/extract-lsx ... --detect-levels
+                                        - v13: Kompressionsstufe je Eintrag fürs Manifest ermitteln (langsam)
   extract-lsx <input.lsv> [outputDir]   - LSV → LSX + PNG etc.
   pack-lsx <inputDir> [output.lsv]      - LSX-Ordner zurück zu LSV packen
   pack <inputDir> [output.lsv]          - Verzeichnis (LSF) zurück zu LSV packen
-  pack/pack-lsx ... --game dos2|bg3     - Version (default: dos2)
+  pack/pack-lsx ... --game dos2|bg3     - Version (default: aus __manifest__.json, sonst dos2)
+  pack/pack-lsx ... --package-version n - LSPK-Version 7, 9, 10, 13, 15, 16 oder 18
+  pack/pack-lsx ... --strict            - Ergebnis muss exakt __manifest__.json (v2) entsprechen
+  pack/pack-lsx ... --part-size <bytes> - In Parts aufteilen (Foo_1.lsv, …)
+  pack/pack-lsx ... --compression <m>[:<stufe>]
+                                        - Kompression für alle Dateien: none|zlib|lz4|zstd, Stufe fast|default|max
+  pack/pack-lsx ... --compress <glob>=<m>[:<stufe>]
+                                        - Kompression je Muster (mehrfach möglich, z.B. "*.png=none")
+  pack/pack-lsx/extract-lsx ... --jobs n
+                                        - Anzahl Worker-Threads (default: Anzahl CPU-Kerne)
+  verify <input.lsv>                    - Header-MD5 und CRC32 aller Einträge prüfen
+  info <input.lsv>                      - Version, Flags, Priority, Parts, MD5, File-List-Größe
+  list <input.lsv> [--json]             - Einträge auflisten (Kompression, Größen, Offset, CRC)
+  pak list <a.pak> [b.pak …] [--json]   - Einträge mehrerer Paks, höhere Priority gewinnt
+  pak extract <a.pak> [b.pak …] [-o dir] [--filter <glob>]
+                                        - Zusammengeführte Paks entpacken
+  pak mods <a.pak> [b.pak …] [--json]   - Mod-Metadaten (Mods/*/meta.lsx)
+  pak build <modDir> [output.pak] [--game dos2|bg3] [--priority n]
+                                        - Mod-Pak bauen: meta.lsx prüfen, *.lsf.lsx → .lsf, LZ4
+                                          (auch --package-version, --compression, --compress, --jobs)
   convert <input.lsf> [output.lsx]       - LSF zu LSX konvertieren
   convert <input.lsx> [output.lsf]      - LSX zu LSF konvertieren
+  convert <input.lsb> [output.lsx]      - LSB zu LSX konvertieren
+  convert <input.lsj> [output.lsf]      - LSJ (JSON) zu LSF konvertieren
+                                          (Formate nach Endung: .lsf, .lsb, .lsx, .lsj in jede Richtung)
+  convert ... --lsf-version n           - LSF-Formatversion 1–7 (default: 3 für DOS2, 6 für BG3)
+  convert ... --lsf-compression <m>[:<stufe>]
+                                        - LSF-Blockkompression: none, zlib, lz4, lz4-frame (BG3-Chunks), zstd
+                                          (default: lz4:default)
 
 Beispiele:
   node dist/cli.js unpack Kiss.lsv ./extracted
   node dist/cli.js extract-lsx Kiss.lsv ./lsx-only
   node dist/cli.js pack-lsx ./lsx-only Kiss_repacked.lsv
   node dist/cli.js pack ./extracted Kiss_repacked.lsv
+  node dist/cli.js pack ./extracted Kiss.pak --game bg3 --compression lz4:max --compress "*.png=none"
+  node dist/cli.js list Kiss.lsv --json
+  node dist/cli.js pak extract Shared.pak Gustav.pak -o ./game --filter "RootTemplates/**"
+  node dist/cli.js pak build ./MyMod MyMod.pak --game bg3 --priority 30
   node dist/cli.js convert meta.lsf meta.lsx
+  node dist/cli.js convert meta.lsf meta.lsj
+  node dist/cli.js convert meta.lsx meta.lsf --lsf-version 7
+  node dist/cli.js convert meta.lsx meta.lsf --lsf-compression none
 `;
 
+function printIssues(issues: EntryIssue[]): void {
+	console.log(`${issues.length} fehlerhafte Einträge:`);
+	for (const issue of issues) {
+		console.log(`  [${issue.kind}] ${issue.name} (Part ${issue.archivePart}): ${issue.message}`);
+	}
+}
+
+/** --package-version <n> (7, 9, 10, 13, 15, 16, 18) hat Vorrang vor --game dos2|bg3; ohne beide undefined */
+function parsePackageVersion(): number | undefined {
+	const versionIdx = args.indexOf("--package-version");
+	if (versionIdx >= 0) {
+		const version = Number(args[versionIdx + 1]);
+		if (!(version in PackageVersion)) {
+			throw new Error(`Nicht unterstützte LSPK-Version: ${args[versionIdx + 1]}`);
+		}
+		return version;
+	}
+	const gameIdx = args.indexOf("--game");
+	if (gameIdx < 0) return undefined;
+	return args[gameIdx + 1] === "bg3" ? PackageVersion.V18 : PackageVersion.V13;
+}
+
+const COMPRESSION_METHODS: Record<string, CompressionMethod> = {
+	none: CompressionMethod.None,
+	zlib: CompressionMethod.Zlib,
+	lz4: CompressionMethod.LZ4,
+	zstd: CompressionMethod.Zstd
+};
+
+/** "<methode>[:<stufe>]", z.B. "lz4:max" */
+function parseCompression(value: string | undefined): PackCompression {
+	const [methodName, level = "default"] = (value ?? "").toLowerCase().split(":");
+	const method = COMPRESSION_METHODS[methodName];
+	if (method === undefined) {
+		throw new Error(`Unbekannte Kompression: ${value} (erlaubt: ${Object.keys(COMPRESSION_METHODS).join(", ")})`);
+	}
+	if (level !== "fast" && level !== "default" && level !== "max") {
+		throw new Error(`Unbekannte Kompressionsstufe: ${level} (erlaubt: fast, default, max)`);
+	}
+	return { method, level: level as CompressionLevel };
+}
+
+/** Flags von pack/pack-lsx mit Wert (für positionalArgs) */
+const PACK_VALUE_FLAGS = ["--package-version", "--game", "--part-size", "--compression", "--compress", "--jobs"];
+
+/** --package-version/--game, --part-size, --jobs, --strict, --compression und --compress <glob>=<methode>[:<stufe>] */
+function parsePackOptions(): PackLsvOptions {
+	const options: PackLsvOptions = { version: parsePackageVersion(), maxPartSize: parsePartSize(), jobs: parseJobs() };
+	if (args.includes("--strict")) options.strict = true;
+	const idx = args.indexOf("--compression");
+	if (idx >= 0) options.compression = parseCompression(args[idx + 1]);
+	const rules: PackCompressionRule[] = [];
+	args.forEach((arg, i) => {
+		if (arg !== "--compress") return;
+		const value = args[i + 1] ?? "";
+		const eq = value.lastIndexOf("=");
+		if (eq <= 0) {
+			throw new Error(`Ungültiges --compress: ${value} (erwartet <glob>=<methode>[:<stufe>])`);
+		}
+		rules.push({ pattern: value.slice(0, eq), ...parseCompression(value.slice(eq + 1)) });
+	});
+	if (rules.length > 0) options.compressionRules = rules;
+	return options;
+}
+
+/** Eine Zeile von `list` (auch für --json) */
+function describeEntry(file: PackagedFileInfo) {
+	const method = file.deleted ? "deleted" : (CompressionMethod[getCompressionMethod(file.flags)] ?? `0x${file.flags.toString(16)}`);
+	return {
+		name: file.name,
+		method,
+		flags: file.flags,
+		sizeOnDisk: file.sizeOnDisk,
+		uncompressedSize: file.uncompressedSize,
+		ratio: file.uncompressedSize > 0 ? file.sizeOnDisk / file.uncompressedSize : 1,
+		offset: Number(file.offsetInFile),
+		archivePart: file.archivePart,
+		crc: file.crc,
+		deleted: file.deleted
+	};
+}
+
+/** --lsf-version <n> (1–7) für convert nach .lsf */
+function parseLsfVersion(): LsfFormatVersion | undefined {
+	const value = flagValue("--lsf-version");
+	if (value === undefined) return undefined;
+	const version = Number(value);
+	if (!Number.isInteger(version) || !(version in LsfFormatVersion)) {
+		throw new Error(`Nicht unterstützte LSF-Version: ${value} (1–7)`);
+	}
+	return version;
+}
+
+/** --lsf-compression <methode>[:<stufe>] für convert nach .lsf; "lz4-frame" = LZ4 chunked wie BG3 */
+function parseLsfCompression(): LsfCompression | undefined {
+	const value = flagValue("--lsf-compression");
+	if (value === undefined) return undefined;
+	const [methodName, ...rest] = value.split(":");
+	if (methodName.toLowerCase() === "lz4-frame") {
+		return { ...parseCompression(["lz4", ...rest].join(":")), chunked: true };
+	}
+	return parseCompression(value);
+}
+
+/** --jobs <n> für den Worker-Pool; undefined = Anzahl CPU-Kerne */
+function parseJobs(): number | undefined {
+	const idx = args.indexOf("--jobs");
+	if (idx < 0) return undefined;
+	const jobs = Number(args[idx + 1]);
+	if (!Number.isInteger(jobs) || jobs < 1) {
+		throw new Error(`Ungültiges --jobs: ${args[idx + 1]}`);
+	}
+	return jobs;
+}
+
+/** Positionsargumente ab Index `from`, ohne Flags und die Werte von Flags mit Parameter */
+function positionalArgs(from: number, valueFlags: string[]): string[] {
+	const result: string[] = [];
+	for (let i = from; i < args.length; i++) {
+		if (valueFlags.includes(args[i])) {
+			i++;
+		} else if (!args[i].startsWith("-")) {
+			result.push(args[i]);
+		}
+	}
+	return result;
+}
+
+function flagValue(flag: string): string | undefined {
+	const idx = args.indexOf(flag);
+	return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+/** --part-size <bytes> für Multi-Part-Packages */
+function parsePartSize(): number | undefined {
+	const idx = args.indexOf("--part-size");
+	if (idx < 0) return undefined;
+	const size = Number(args[idx + 1]);
+	if (!Number.isInteger(size) || size <= 0) {
+		throw new Error(`Ungültige --part-size: ${args[idx + 1]}`);
+	}
+	return size;
+}
+
+/** --priority für pak build: Byte im LSPK-Header (0–255) */
+function parsePriority(): number | undefined {
+	const idx = args.indexOf("--priority");
+	if (idx < 0) return undefined;
+	const priority = /^\d+$/.test(args[idx + 1] ?? "") ? Number(args[idx + 1]) : NaN;
+	if (!(priority >= 0 && priority <= 255)) {
+		throw new Error(`Ungültige --priority: ${args[idx + 1]} (erwartet ganze Zahl 0–255)`);
+	}
+	return priority;
+}
+
+/** Ressourcenformat nach Dateiendung (für convert) */
+function resourceFormat(path: string): "lsf" | "lsb" | "lsx" | "lsj" | undefined {
+	const match = /\.(lsf|lsb|lsx|lsj)$/i.exec(path);
+	return match ? (match[1].toLowerCase() as "lsf" | "lsb" | "lsx" | "lsj") : undefined;
+}
+
 if (!command || args.includes("--help") || args.includes("-h") || command === "help") {
 	console.log(HELP);
 	process.exit(command ? 0 : 1);
@@ -55,105 +277,299 @@ if (!inputPath) {
 
 try {
 	if (command === "unpack") {
-		const outputDir = outputPath ?? join(process.cwd(), "extracted");
+		const outputDir = positionalArgs(2, [])[0] ?? join(process.cwd(), "extracted");
 		if (!existsSync(inputPath)) {
 			console.error(`Fehler: Datei nicht gefunden: ${inputPath}`);
 			process.exit(1);
 		}
 		mkdirSync(outputDir, { recursive: true });
 		console.log(`Entpacke ${inputPath} nach ${outputDir}...`);
-		const extracted = unpackLsv(inputPath, outputDir);
+		const { extracted, issues, deleted } = unpackLsvWithReport(inputPath, outputDir, {
+			continueOnError: args.includes("--continue-on-error"),
+			detectLevels: args.includes("--detect-levels")
+		});
 		console.log(`Fertig: ${extracted.length} Dateien extrahiert`);
 		extracted.forEach((f) => console.log(`  - ${f}`));
+		if (deleted.length > 0) {
+			console.log(`${deleted.length} Einträge mit Löschmarker übersprungen (in __manifest__.json unter "files" mit "deleted": true):`);
+			deleted.forEach((f) => console.log(`  - ${f}`));
+		}
+		if (issues.length > 0) {
+			printIssues(issues);
+			process.exit(2);
+		}
 	} else if (command === "extract-lsx") {
-		const outputDir = outputPath ?? join(process.cwd(), "extracted-lsx");
+		const outputDir = positionalArgs(2, ["--jobs"])[0] ?? join(process.cwd(), "extracted-lsx");
 		if (!existsSync(inputPath)) {
 			console.error(`Fehler: Datei nicht gefunden: ${inputPath}`);
 			process.exit(1);
 		}
 		mkdirSync(outputDir, { recursive: true });
 		console.log(`Entpacke ${inputPath} → LSX nach ${outputDir}...`);
-		const { files, data, header } = readPackage(inputPath);
-		const dataOffset = header.headerAtStart || header.version > 10 ? 0 : header.fileListOffset + 32;
+		const archive = new LsvArchive(inputPath);
+		const pool = new WorkerPool(parseJobs());
 		const extracted: string[] = [];
-		const lsfFiles: Array<{ file: (typeof files)[0]; content: Buffer }> = [];
-		const otherFiles: Array<{ file: (typeof files)[0]; content: Buffer }> = [];
-
-		for (const file of files) {
-			const content = extractFileContent(data, file, dataOffset);
-			if (file.name.toLowerCase().endsWith(".lsf")) {
-				lsfFiles.push({ file, content });
-			} else {
-				otherFiles.push({ file, content });
-			}
-		}
-
 		const toLsxPath = (name: string) => name.replace(/\.lsf$/i, ".lsx");
-		const allDirs = new Set<string>();
-		for (const { file } of lsfFiles) {
-			allDirs.add(dirname(join(outputDir, toLsxPath(file.name))));
-		}
-		for (const { file } of otherFiles) {
-			allDirs.add(dirname(join(outputDir, file.name)));
-		}
-		for (const d of allDirs) mkdirSync(d, { recursive: true });
+		const version = archive.header.version;
+		/** Kompressions-Flags fürs Manifest (v13 mit --detect-levels: Stufe aus dem Inhalt ermittelt) */
+		const manifestFlags = new Map<string, number>();
+		const detectLevels = args.includes("--detect-levels");
 
-		for (const { file, content } of lsfFiles) {
-			const reader = new LSFReader(content);
-			const root = reader.read();
-			const lsx = convertLsfToLsx(root, reader.getEngineVersion());
-			const lsxPath = join(outputDir, toLsxPath(file.name));
-			writeFileSync(lsxPath, lsx, "utf8");
-			extracted.push(lsxPath);
-		}
+		// Dekomprimieren, LSF lesen und LSX erzeugen parallel im Worker-Pool; geschrieben wird
+		// in Package-Reihenfolge, und es sind nur wenige Einträge gleichzeitig im Speicher
+		try {
+			const entries = archive.entries().filter((f) => !f.deleted);
+			// Alle Namen vor dem ersten Schreiben prüfen (Path Traversal aus fremden Saves/Mods)
+			for (const file of entries) entryPath(outputDir, toLsxPath(file.name));
+			const lsfFiles = entries.filter((f) => f.name.toLowerCase().endsWith(".lsf"));
+			const otherFiles = entries.filter((f) => !f.name.toLowerCase().endsWith(".lsf"));
 
-		for (const { file, content } of otherFiles) {
-			writeFileSync(join(outputDir, file.name), content, { flag: "w" });
-			extracted.push(join(outputDir, file.name));
+			await runOrdered(
+				pool,
+				lsfFiles,
+				(file) => pool.run({ type: "lsf-to-lsx", file, raw: archive.readRaw(file.name), version, detectLevels }),
+				({ lsx, flags }, file) => {
+					manifestFlags.set(file.name, flags);
+					const lsxPath = entryPath(outputDir, toLsxPath(file.name));
+					mkdirSync(dirname(lsxPath), { recursive: true });
+					writeFileSync(lsxPath, lsx, "utf8");
+					extracted.push(lsxPath);
+				}
+			);
+
+			for (const file of otherFiles) {
+				const outPath = entryPath(outputDir, file.name);
+				mkdirSync(dirname(outPath), { recursive: true });
+				const content = archive.read(file.name);
+				writeFileSync(outPath, content, { flag: "w" });
+				if (detectLevels) manifestFlags.set(file.name, detectCompressionFlags(file, content, version));
+				extracted.push(outPath);
+			}
+			// Für pack-lsx: Reihenfolge, Kompression und Parts des Originals (Namen wie im Package)
+			const manifestEntries = archive.entries().map((file) => ({ ...file, flags: manifestFlags.get(file.name) ?? file.flags }));
+			writeManifest(outputDir, createManifest(archive.header, manifestEntries));
+		} finally {
+			archive.close();
+			await pool.close();
 		}
 
 		console.log(`Fertig: ${extracted.length} Dateien erstellt`);
 		extracted.forEach((f) => console.log(`  - ${f}`));
 	} else if (command === "pack-lsx") {
-		const output = outputPath ?? join(process.cwd(), "repacked.lsv");
+		const output = positionalArgs(2, PACK_VALUE_FLAGS)[0] ?? join(process.cwd(), "repacked.lsv");
 		if (!existsSync(inputPath)) {
 			console.error(`Fehler: Verzeichnis nicht gefunden: ${inputPath}`);
 			process.exit(1);
 		}
-		const gameIdx = args.indexOf("--game");
-		const version = gameIdx >= 0 && args[gameIdx + 1] === "bg3" ? 18 : 13;
+		const options = parsePackOptions();
 		console.log(`Packe LSX-Ordner ${inputPath} → ${output}...`);
-		packLsvFromLsx(inputPath, output, { version });
+		await packLsvFromLsxAsync(inputPath, output, options);
 		console.log(`Fertig: ${output} erstellt`);
 	} else if (command === "pack") {
-		const output = outputPath ?? join(process.cwd(), "repacked.lsv");
+		const output = positionalArgs(2, PACK_VALUE_FLAGS)[0] ?? join(process.cwd(), "repacked.lsv");
 		if (!existsSync(inputPath)) {
 			console.error(`Fehler: Verzeichnis nicht gefunden: ${inputPath}`);
 			process.exit(1);
 		}
-		const gameIdx = args.indexOf("--game");
-		const version = gameIdx >= 0 && args[gameIdx + 1] === "bg3" ? 18 : 13;
+		const options = parsePackOptions();
 		console.log(`Packe ${inputPath} → ${output}...`);
-		packLsv(inputPath, output, { version });
+		await packLsvAsync(inputPath, output, options);
 		console.log(`Fertig: ${output} erstellt`);
+	} else if (command === "verify") {
+		if (!existsSync(inputPath)) {
+			console.error(`Fehler: Datei nicht gefunden: ${inputPath}`);
+			process.exit(1);
+		}
+		const archive = new LsvArchive(inputPath);
+		let ok = true;
+		try {
+			const issues = archive.check();
+			if (issues.length > 0) {
+				printIssues(issues);
+				ok = false;
+			} else {
+				console.log(`CRC: OK (${archive.entries().length} Einträge)`);
+			}
+			// MD5 nur sinnvoll berechenbar, wenn alle Einträge lesbar sind
+			if (issues.length === 0) {
+				const result = archive.verifyHash();
+				console.log(`Gespeichert: ${result.stored}`);
+				console.log(`Berechnet:   ${result.computed}`);
+				if (result.match) {
+					console.log("MD5: OK");
+				} else {
+					console.log(result.present ? "MD5: ABWEICHUNG" : "MD5: nicht gesetzt (nur Nullen)");
+					ok = false;
+				}
+			}
+		} finally {
+			archive.close();
+		}
+		if (!ok) process.exit(2);
+	} else if (command === "info") {
+		if (!existsSync(inputPath)) {
+			console.error(`Fehler: Datei nicht gefunden: ${inputPath}`);
+			process.exit(1);
+		}
+		const archive = new LsvArchive(inputPath);
+		try {
+			const { header } = archive;
+			const md5 = header.md5 && header.md5.some((b) => b !== 0) ? header.md5.toString("hex") : "—";
+			console.log(`Datei:          ${inputPath}`);
+			console.log(`Version:        ${header.version}`);
+			console.log(`Flags:          ${header.flags !== undefined ? `0x${header.flags.toString(16)}` : "—"}`);
+			console.log(`Priority:       ${header.priority ?? "—"}`);
+			console.log(`Parts:          ${header.numParts}`);
+			console.log(`MD5:            ${md5}`);
+			console.log(`Einträge:       ${archive.entries().length}`);
+			console.log(`File-List:      ${header.fileListSize} Bytes @ ${header.fileListOffset}`);
+		} finally {
+			archive.close();
+		}
+	} else if (command === "list") {
+		if (!existsSync(inputPath)) {
+			console.error(`Fehler: Datei nicht gefunden: ${inputPath}`);
+			process.exit(1);
+		}
+		const archive = new LsvArchive(inputPath);
+		let rows: ReturnType<typeof describeEntry>[];
+		try {
+			rows = archive.entries().map(describeEntry);
+		} finally {
+			archive.close();
+		}
+		if (args.includes("--json")) {
+			console.log(JSON.stringify(rows, null, 2));
+		} else {
+			const nameWidth = Math.max(4, ...rows.map((r) => r.name.length));
+			console.log(
+				`${"Name".padEnd(nameWidth)}  ${"Methode".padEnd(7)}  ${"Disk".padStart(10)}  ${"Entpackt".padStart(10)}  ${"Ratio".padStart(6)}  ${"Offset".padStart(12)}  Part  CRC`
+			);
+			for (const r of rows) {
+				const ratio = `${(r.ratio * 100).toFixed(1)}%`;
+				const crc = r.crc !== 0 ? r.crc.toString(16).padStart(8, "0") : "—";
+				console.log(
+					`${r.name.padEnd(nameWidth)}  ${r.method.padEnd(7)}  ${String(r.sizeOnDisk).padStart(10)}  ${String(r.uncompressedSize).padStart(10)}  ${ratio.padStart(6)}  ${String(r.offset).padStart(12)}  ${String(r.archivePart).padStart(4)}  ${crc}`
+				);
+			}
+			console.log(`${rows.length} Einträge`);
+		}
+	} else if (command === "pak" && inputPath === "build") {
+		const [modDir, output] = positionalArgs(2, ["--game", "--priority", "--package-version", "--compression", "--compress", "--jobs"]);
+		if (!modDir) {
+			console.error("Fehler: kein Mod-Verzeichnis angegeben");
+			process.exit(1);
+		}
+		const game = flagValue("--game") ?? "dos2";
+		if (game !== "dos2" && game !== "bg3") {
+			throw new Error(`Unbekanntes Spiel: ${game} (dos2, bg3)`);
+		}
+		const { compression, compressionRules, jobs } = parsePackOptions();
+		const options: BuildModPakOptions = { game, compression, compressionRules, jobs };
+		if (args.includes("--package-version")) options.version = parsePackageVersion();
+		const priority = parsePriority();
+		if (priority !== undefined) options.priority = priority;
+		const mod = validateModProject(modDir);
+		const outPath = output ?? `${mod.folder}.pak`;
+		console.log(`Baue Mod-Pak ${mod.name} (${mod.uuid}) nach ${outPath}...`);
+		await buildModPak(modDir, outPath, options);
+		console.log("Fertig!");
+	} else if (command === "pak") {
+		const subcommand = inputPath;
+		const pakPaths = positionalArgs(2, ["-o", "--filter"]);
+		if (pakPaths.length === 0) {
+			console.error("Fehler: keine .pak-Datei angegeben");
+			process.exit(1);
+		}
+		const missing = pakPaths.find((p) => !existsSync(p));
+		if (missing) {
+			console.error(`Fehler: Datei nicht gefunden: ${missing}`);
+			process.exit(1);
+		}
+		const paks = new PakSet(pakPaths);
+		try {
+			if (subcommand === "list") {
+				const rows = paks.entries().map((e) => ({ ...describeEntry(e.entry), pak: e.pak, priority: e.priority }));
+				if (args.includes("--json")) {
+					console.log(JSON.stringify(rows, null, 2));
+				} else {
+					for (const archive of paks.archives) {
+						console.log(`${archive.path}: v${archive.header.version}, Priority ${archive.header.priority ?? 0}, Flags 0x${(archive.header.flags ?? 0).toString(16)}`);
+					}
+					const nameWidth = Math.max(4, ...rows.map((r) => r.name.length));
+					console.log(`${"Name".padEnd(nameWidth)}  ${"Methode".padEnd(7)}  ${"Entpackt".padStart(10)}  Pak`);
+					for (const r of rows) {
+						console.log(`${r.name.padEnd(nameWidth)}  ${r.method.padEnd(7)}  ${String(r.uncompressedSize).padStart(10)}  ${r.pak}`);
+					}
+					console.log(`${rows.length} Einträge`);
+				}
+			} else if (subcommand === "extract") {
+				const outputDir = flagValue("-o") ?? join(process.cwd(), "extracted-pak");
+				const pattern = flagValue("--filter");
+				const filter = pattern ? (name: string) => globToRegExp(pattern).test(name) : undefined;
+				console.log(`Entpacke ${pakPaths.length} Pak(s) nach ${outputDir}...`);
+				const written = paks.extract(outputDir, filter);
+				console.log(`Fertig: ${written.length} Dateien extrahiert`);
+			} else if (subcommand === "mods") {
+				const mods = paks.mods();
+				if (args.includes("--json")) {
+					console.log(JSON.stringify(mods, null, 2));
+				} else {
+					for (const mod of mods) {
+						console.log(`${mod.name} (${mod.uuid})`);
+						console.log(`  Folder: ${mod.folder}, Version: ${mod.version ?? "—"}, Autor: ${mod.author ?? "—"}`);
+						console.log(`  Pak: ${mod.pak} (${mod.metaPath})`);
+						if (mod.dependencies.length > 0) {
+							console.log(`  Abhängigkeiten: ${mod.dependencies.map((d) => d.name || d.uuid).join(", ")}`);
+						}
+					}
+					console.log(`${mods.length} Mods`);
+				}
+			} else {
+				console.error(`Unbekannter pak-Befehl: ${subcommand} (list, extract, mods, build)`);
+				process.exit(1);
+			}
+		} finally {
+			paks.close();
+		}
 	} else if (command === "convert") {
 		if (!existsSync(inputPath)) {
 			console.error(`Fehler: Datei nicht gefunden: ${inputPath}`);
 			process.exit(1);
 		}
-		const isLsf = inputPath.toLowerCase().endsWith(".lsf");
-		const output = outputPath ?? (isLsf ? inputPath.replace(/\.lsf$/i, ".lsx") : inputPath.replace(/\.lsx$/i, ".lsf"));
+		const inputFormat = resourceFormat(inputPath);
+		if (!inputFormat) {
+			console.error(`Fehler: unbekanntes Eingabeformat: ${inputPath} (.lsf, .lsb, .lsx, .lsj)`);
+			process.exit(1);
+		}
+		const textInput = inputFormat === "lsx" || inputFormat === "lsj";
+		const output = positionalArgs(2, ["--lsf-version", "--lsf-compression"])[0] ?? inputPath.replace(/\.(lsf|lsb|lsx|lsj)$/i, textInput ? ".lsf" : ".lsx");
+		const outputFormat = resourceFormat(output);
+		if (!outputFormat) {
+			console.error(`Fehler: unbekanntes Ausgabeformat: ${output} (.lsf, .lsb, .lsx, .lsj)`);
+			process.exit(1);
+		}
 		console.log(`Konvertiere ${inputPath} → ${output}...`);
 
-		if (isLsf) {
-			const reader = new LSFReader(inputPath);
-			const root = reader.read();
-			const lsx = convertLsfToLsx(root, reader.getEngineVersion());
-			writeFileSync(output, lsx, "utf8");
+		let root: LSFNode;
+		let version: LsfVersion;
+		if (inputFormat === "lsx") {
+			({ root, version } = parseLsx(inputPath));
+		} else if (inputFormat === "lsj") {
+			({ root, version } = parseLsj(inputPath));
+		} else {
+			const reader = inputFormat === "lsb" ? new LSBReader(inputPath) : new LSFReader(inputPath);
+			root = reader.read();
+			version = reader.getEngineVersion();
+		}
+		if (outputFormat === "lsx") {
+			writeFileSync(output, convertLsfToLsx(root, version), "utf8");
+		} else if (outputFormat === "lsj") {
+			writeFileSync(output, convertLsfToLsj(root, version), "utf8");
+		} else if (outputFormat === "lsb") {
+			writeLsb(root, output, version);
 		} else {
-			const { root, version } = parseLsx(inputPath);
-			const opts = version.major >= 4 ? undefined : { metadataFormat: 0 };
-			writeLsf(root, output, version, opts);
+			writeLsf(root, output, version, { metadataFormat: version.major >= 4 ? undefined : 0, formatVersion: parseLsfVersion(), compression: parseLsfCompression() });
 		}
 		console.log(`Fertig: ${output} erstellt`);
 	} else {
@@ -6,11 +6,11 @@
  *
  * Der Prozess hat 2 Stufen:
  * 1. LSV entpacken → LSF/LSB Dateien (dieses Modul)
- * 2. LSF/LSB → LSX (mit Norbyte LSLib/Divine)
+ * 2. LSF/LSB → LSX (LSFReader/LSBReader + convertLsfToLsx)
  *
  * @example
  * ```ts
- * import { unpackLsv, readPackage } from 'dos2-savegame-tools';
+ * import { unpackLsv, readPackage, LsvArchive, PackageBuilder } from 'dos2-savegame-tools';
  *
  * // Nur Metadaten lesen
  * const { files } = readPackage('Kiss.lsv');
@@ -18,18 +18,58 @@
  *
  * // Komplett entpacken
  * unpackLsv('Kiss.lsv', './extracted');
+ *
+ * // Package im Speicher bauen (Buffer oder LSF-Baum)
+ * new PackageBuilder({ version: 18 }).add('meta.lsf', root).writeTo('New.lsv');
+ *
+ * // Einzelne Dateien lesen, ohne das ganze Package zu laden
+ * const archive = new LsvArchive('Kiss.lsv');
+ * const meta = archive.read('meta.lsf');
+ * archive.close();
  * ```
  */
 
-export { unpackLsv, readPackage } from "./lsv/unpacker.js";
-export type { UnpackOptions } from "./lsv/unpacker.js";
-export { packLsv, packLsvFromLsx } from "./lsv/packer.js";
-export type { PackLsvOptions } from "./lsv/packer.js";
+export { unpackLsv, unpackLsvWithReport, readPackage } from "./lsv/unpacker.js";
+export type { UnpackOptions, UnpackReport, EntryIssue, PackageHeader } from "./lsv/unpacker.js";
+export { LsvArchive, verifyPackageHash } from "./lsv/archive.js";
+export { PakSet, readModInfos, parseModMeta, buildModPak, validateModProject } from "./lsv/pak.js";
+export type { PakEntry, ModInfo, ModDependency, BuildModPakOptions } from "./lsv/pak.js";
+export type { PackageHashResult } from "./lsv/archive.js";
+export { packLsv, packLsvFromLsx, packLsvAsync, packLsvFromLsxAsync, replaceEntries } from "./lsv/packer.js";
+export { WorkerPool } from "./workers/pool.js";
+export type { PackLsvOptions, PackCompression, PackCompressionRule } from "./lsv/packer.js";
+export { readManifest, parseManifest, createManifest, writeManifest, MANIFEST_VERSION } from "./lsv/manifest.js";
+export type { PackageManifest, ManifestEntry, ManifestMethod } from "./lsv/manifest.js";
+export { PackageBuilder } from "./lsv/builder.js";
+export type { PackageBuilderOptions, AddEntryOptions } from "./lsv/builder.js";
 export type { PackagedFileInfo } from "./lsv/types.js";
+export { PackageVersion, PackageFlags, CompressionMethod, CompressionFlags, getCompressionMethod, makeCompressionFlags } from "./lsv/types.js";
+export type { CompressionLevel } from "./lsv/types.js";
 export { decompress, decompressLZ4, decompressZlib } from "./lsv/compression.js";
 export { LSFReader } from "./lsf/reader.js";
+export { LSFNodeCursor } from "./lsf/cursor.js";
+export type { LSFVisitor } from "./lsf/cursor.js";
 export { writeLsf, writeLsfToBuffer } from "./lsf/writer.js";
-export type { LsfVersion, WriteLsfOptions } from "./lsf/writer.js";
+export type { LsfCompression, LsfVersion, WriteLsfOptions } from "./lsf/writer.js";
+export { LSBReader } from "./lsb/reader.js";
+export { writeLsb, writeLsbToBuffer } from "./lsb/writer.js";
 export { convertLsfToLsx } from "./lsx/lsx-writer.js";
 export { parseLsx } from "./lsx/lsx-reader.js";
+export { convertLsfToLsj } from "./lsj/lsj-writer.js";
+export type { LsjVersion } from "./lsj/lsj-writer.js";
+export { parseLsj } from "./lsj/lsj-reader.js";
+export { LsfFormatVersion, NodeAttributeType, attributeTypeName, createAttribute, matrixShape, parseAttributeTypeName, toAttributeValue, toLegacyValue } from "./lsf/types.js";
+export type {
+	LSFNode,
+	LSFAttribute,
+	AttributeValue,
+	AttributeValueMap,
+	LegacyAttributeValue,
+	MatrixValue,
+	TranslatedStringValue,
+	TranslatedFSStringValue,
+	Vec2Value,
+	Vec3Value,
+	Vec4Value
+} from "./lsf/types.js";
 export type { LsxVersion, LsxOptions } from "./lsx/lsx-writer.js";
@@ -0,0 +1,303 @@
+/**
+ * LSB Reader – älteres Binärformat für Ressourcen (DOS1, DOS2: globals, Teile der Level-Daten)
+ * an LSLib LSBReader angepasst: https://github.com/Norbyte/lslib/blob/master/LSLib/LS/Resources/LSB/LSBReader.cs
+ *
+ * Aufbau: [Header (40 B)][Static Strings][Regionen-Tabelle][Nodes rekursiv]
+ * Liefert denselben LSFNode-Baum wie LSFReader (eine Region = Wurzel, mehrere = virtueller "save"-Knoten).
+ */
+
+import { readFileSync } from "node:fs";
+import { AttributeValue, LSFAttribute, LSFNode, MatrixValue, NodeAttributeType, TranslatedStringValue, Vec4Value, matrixShape } from "../lsf/types.js";
+import type { LsfVersion } from "../lsf/writer.js";
+
+/** LSB-Signatur bis DOS2 DE (FW3) */
+const LSB_SIGNATURE_FW3 = 0x40000000;
+/** LSB-Signatur ab BG3 ("LSFM") */
+const LSB_SIGNATURE_BG3 = 0x4d46534c;
+const LSB_HEADER_SIZE = 40;
+
+/** Größe der Typen mit fester Länge (LSLib BinUtils.ReadAttribute) */
+const FIXED_SIZES: Partial<Record<NodeAttributeType, number>> = {
+	[NodeAttributeType.None]: 0,
+	[NodeAttributeType.Byte]: 1,
+	[NodeAttributeType.Short]: 2,
+	[NodeAttributeType.UShort]: 2,
+	[NodeAttributeType.Int]: 4,
+	[NodeAttributeType.UInt]: 4,
+	[NodeAttributeType.Float]: 4,
+	[NodeAttributeType.Double]: 8,
+	[NodeAttributeType.IVec2]: 8,
+	[NodeAttributeType.IVec3]: 12,
+	[NodeAttributeType.IVec4]: 16,
+	[NodeAttributeType.Vec2]: 8,
+	[NodeAttributeType.Vec3]: 12,
+	[NodeAttributeType.Vec4]: 16,
+	[NodeAttributeType.Mat2]: 16,
+	[NodeAttributeType.Mat3]: 36,
+	[NodeAttributeType.Mat3x4]: 48,
+	[NodeAttributeType.Mat4x3]: 48,
+	[NodeAttributeType.Mat4]: 64,
+	[NodeAttributeType.Bool]: 1,
+	[NodeAttributeType.ULongLong]: 8,
+	[NodeAttributeType.Long]: 8,
+	[NodeAttributeType.Int8]: 1,
+	[NodeAttributeType.UUID]: 16,
+	[NodeAttributeType.Int64]: 8
+};
+
+export class LSBReader {
+	private buffer: Buffer;
+	private offset = 0;
+	private isBG3 = false;
+	private version: LsfVersion = { major: 0, minor: 0, revision: 0, build: 0 };
+	private staticStrings = new Map<number, string>();
+
+	constructor(pathOrBuffer: string | Buffer) {
+		this.buffer = Buffer.isBuffer(pathOrBuffer) ? pathOrBuffer : readFileSync(pathOrBuffer);
+	}
+
+	public read(): LSFNode {
+		this.readHeader();
+		this.readStaticStrings();
+		const regions = this.readRegions();
+		if (regions.length === 0) throw new Error("LSB enthält keine Region");
+		return regions.length === 1 ? regions[0] : { name: "save", attributes: {}, children: regions };
+	}
+
+	/** Engine-Version aus den LSB-Metadaten */
+	public getEngineVersion(): LsfVersion {
+		return this.version;
+	}
+
+	private readHeader(): void {
+		if (this.buffer.length < LSB_HEADER_SIZE) {
+			throw new Error(`Invalid LSB: Datei zu klein (${this.buffer.length} Bytes)`);
+		}
+		const signature = this.buffer.readUInt32LE(0);
+		if (signature !== LSB_SIGNATURE_FW3 && signature !== LSB_SIGNATURE_BG3) {
+			throw new Error(`Invalid LSB signature: 0x${signature.toString(16)}`);
+		}
+		this.isBG3 = signature === LSB_SIGNATURE_BG3;
+		if (this.buffer.readUInt32LE(8) !== 0) {
+			throw new Error("Big-Endian-LSB wird nicht unterstützt");
+		}
+		// Metadata: Timestamp (8), Major, Minor, Revision, Build
+		this.version = {
+			major: this.buffer.readUInt32LE(24),
+			minor: this.buffer.readUInt32LE(28),
+			revision: this.buffer.readUInt32LE(32),
+			build: this.buffer.readUInt32LE(36)
+		};
+		this.offset = LSB_HEADER_SIZE;
+	}
+
+	private readStaticStrings(): void {
+		const count = this.readU32();
+		for (let i = 0; i < count; i++) {
+			const s = this.readString(false);
+			const index = this.readU32();
+			if (this.staticStrings.has(index)) {
+				throw new Error(`Invalid LSB: Static String ${index} doppelt`);
+			}
+			this.staticStrings.set(index, s);
+		}
+	}
+
+	private readRegions(): LSFNode[] {
+		const count = this.readU32();
+		const regions: LSFNode[] = [];
+		for (let i = 0; i < count; i++) {
+			this.staticString(this.readU32()); // Regionsname, entspricht dem Namen des Wurzel-Nodes
+			const regionOffset = this.readU32();
+			const tablePos = this.offset;
+			this.offset = regionOffset;
+			regions.push(this.readNode());
+			this.offset = tablePos;
+		}
+		return regions;
+	}
+
+	/** Iterativ statt rekursiv: Kinder folgen direkt auf ihren Node, beliebige Tiefe ohne Stack-Limit */
+	private readNode(): LSFNode {
+		const [root, rootChildren] = this.readNodeHeader();
+		const pending: [LSFNode, number][] = [[root, rootChildren]];
+		while (pending.length > 0) {
+			const top = pending[pending.length - 1];
+			if (top[1] === 0) {
+				pending.pop();
+				continue;
+			}
+			top[1]--;
+			const [child, childCount] = this.readNodeHeader();
+			top[0].children.push(child);
+			pending.push([child, childCount]);
+		}
+		return root;
+	}
+
+	/** Name und Attribute eines Nodes; liefert zusätzlich die Anzahl der folgenden Kinder */
+	private readNodeHeader(): [LSFNode, number] {
+		const node: LSFNode = { name: this.staticString(this.readU32()), attributes: {}, children: [] };
+		const attributeCount = this.readU32();
+		const childCount = this.readU32();
+		for (let i = 0; i < attributeCount; i++) {
+			const name = this.staticString(this.readU32());
+			const type = this.readU32() as NodeAttributeType;
+			if (type > NodeAttributeType.TranslatedFSString) {
+				throw new Error(`Invalid LSB: unbekannter Attributtyp ${type} (${name})`);
+			}
+			node.attributes[name] = { name, type, value: this.readAttributeValue(type, name) } as LSFAttribute;
+		}
+		return [node, childCount];
+	}
+
+	private readAttributeValue(type: NodeAttributeType, name: string): AttributeValue {
+		switch (type) {
+			case NodeAttributeType.String:
+			case NodeAttributeType.Path:
+			case NodeAttributeType.FixedString:
+			case NodeAttributeType.LSString:
+				return this.readString(true);
+			case NodeAttributeType.WString:
+			case NodeAttributeType.LSWString:
+				return this.readWideString();
+			case NodeAttributeType.TranslatedString:
+				return this.readTranslatedString();
+			case NodeAttributeType.ScratchBuffer: {
+				const length = this.readU32();
+				return new Uint8Array(this.take(length));
+			}
+			case NodeAttributeType.TranslatedFSString:
+				throw new Error(`LSB unterstützt keine TranslatedFSString-Attribute (${name})`);
+			default:
+				return this.readFixedValue(type, this.take(FIXED_SIZES[type] ?? 0));
+		}
+	}
+
+	/** Werte wie LSFReader (Vektoren als Tupel, 64-Bit als bigint, UUID mit Byte-Swap) */
+	private readFixedValue(type: NodeAttributeType, buf: Buffer): AttributeValue {
+		switch (type) {
+			case NodeAttributeType.None:
+				return "";
+			case NodeAttributeType.Byte:
+			case NodeAttributeType.Int8:
+				return buf.readInt8(0);
+			case NodeAttributeType.Short:
+				return buf.readInt16LE(0);
+			case NodeAttributeType.UShort:
+				return buf.readUInt16LE(0);
+			case NodeAttributeType.Int:
+				return buf.readInt32LE(0);
+			case NodeAttributeType.UInt:
+				return buf.readUInt32LE(0);
+			case NodeAttributeType.Float:
+				return buf.readFloatLE(0);
+			case NodeAttributeType.Double:
+				return buf.readDoubleLE(0);
+			case NodeAttributeType.Bool:
+				return buf.readInt8(0) !== 0;
+			case NodeAttributeType.IVec2:
+			case NodeAttributeType.IVec3:
+			case NodeAttributeType.IVec4: {
+				const comps: number[] = [];
+				for (let o = 0; o < buf.length; o += 4) comps.push(buf.readInt32LE(o));
+				return comps as Vec4Value;
+			}
+			case NodeAttributeType.Vec2:
+			case NodeAttributeType.Vec3:
+			case NodeAttributeType.Vec4: {
+				const comps: number[] = [];
+				for (let o = 0; o < buf.length; o += 4) comps.push(buf.readFloatLE(o));
+				return comps as Vec4Value;
+			}
+			case NodeAttributeType.Mat2:
+			case NodeAttributeType.Mat3:
+			case NodeAttributeType.Mat3x4:
+			case NodeAttributeType.Mat4x3:
+			case NodeAttributeType.Mat4: {
+				// LSLib: spaltenweise gespeichert
+				const { rows, columns } = matrixShape(type)!;
+				const mat: MatrixValue = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+				for (let col = 0; col < columns; col++) {
+					for (let row = 0; row < rows; row++) mat[row][col] = buf.readFloatLE((col * rows + row) * 4);
+				}
+				return mat;
+			}
+			case NodeAttributeType.ULongLong:
+				return buf.readBigUInt64LE(0);
+			case NodeAttributeType.Long:
+			case NodeAttributeType.Int64:
+				return buf.readBigInt64LE(0);
+			case NodeAttributeType.UUID: {
+				const b = Buffer.from(buf);
+				for (let i = 8; i < 16; i += 2) [b[i], b[i + 1]] = [b[i + 1], b[i]];
+				const hex = b.toString("hex");
+				return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+			}
+			default:
+				throw new Error(`Invalid LSB: Attributtyp ${type} nicht unterstützt`);
+		}
+	}
+
+	/** DOS2: Value + Handle. BG3: Version (2 B) + Handle, außer der Key enthält noch den Wert (LSLib-Heuristik) */
+	private readTranslatedString(): TranslatedStringValue {
+		let value = "";
+		if (this.isBG3) {
+			const test = this.buffer.readUInt16LE(this.offset + 2);
+			if (test === 0) {
+				value = this.readString(true);
+			} else {
+				this.offset += 2; // Version
+			}
+		} else {
+			value = this.readString(true);
+		}
+		return { value, handle: this.readString(true) };
+	}
+
+	/** UTF-8 mit Länge davor; nullTerminated = Länge enthält das abschließende 0-Byte */
+	private readString(nullTerminated: boolean): string {
+		const length = this.readU32();
+		if (nullTerminated && length === 0) {
+			throw new Error(`Invalid LSB: String ohne Terminator bei Offset ${this.offset - 4}`);
+		}
+		let bytes = this.take(nullTerminated ? length - 1 : length);
+		if (nullTerminated && this.take(1)[0] !== 0) {
+			throw new Error(`Invalid LSB: String bei Offset ${this.offset - length - 4} nicht null-terminiert`);
+		}
+		let end = bytes.length;
+		while (end > 0 && bytes[end - 1] === 0) end--;
+		bytes = bytes.subarray(0, end);
+		return bytes.toString("utf8");
+	}
+
+	/** UTF-16LE, Länge in Zeichen inkl. Terminator */
+	private readWideString(): string {
+		const length = this.readU32();
+		if (length === 0) {
+			throw new Error(`Invalid LSB: WString ohne Terminator bei Offset ${this.offset - 4}`);
+		}
+		const bytes = this.take((length - 1) * 2);
+		this.take(2);
+		return bytes.toString("utf16le");
+	}
+
+	private staticString(index: number): string {
+		const s = this.staticStrings.get(index);
+		if (s === undefined) throw new Error(`Invalid LSB: Static String ${index} fehlt`);
+		return s;
+	}
+
+	private readU32(): number {
+		return this.take(4).readUInt32LE(0);
+	}
+
+	private take(length: number): Buffer {
+		if (this.offset + length > this.buffer.length) {
+			throw new Error(`Invalid LSB: ${length} Bytes bei Offset ${this.offset} über Dateiende (${this.buffer.length})`);
+		}
+		const chunk = this.buffer.subarray(this.offset, this.offset + length);
+		this.offset += length;
+		return chunk;
+	}
+}
@@ -0,0 +1,117 @@
+/**
+ * LSB Writer – schreibt einen LSFNode-Baum im LSB-Format (Gegenstück zu LSBReader)
+ * an LSLib LSBWriter angepasst: https://github.com/Norbyte/lslib/blob/master/LSLib/LS/Resources/LSB/LSBWriter.cs
+ *
+ * Werte mit fester Länge werden wie im LSF-Values-Block kodiert, Strings erhalten ein Längenpräfix.
+ */
+
+import { writeFileSync } from "node:fs";
+import { LSFAttribute, LSFNode, NodeAttributeType, createAttribute } from "../lsf/types.js";
+import { serializeAttributeValue } from "../lsf/writer.js";
+import type { LsfVersion } from "../lsf/writer.js";
+
+const LSB_SIGNATURE_FW3 = 0x40000000;
+const LSB_SIGNATURE_BG3 = 0x4d46534c;
+const LSB_HEADER_SIZE = 40;
+
+/** Static Strings in Reihenfolge des ersten Auftretens (Region, Node-Namen, Attributnamen, Tiefensuche) */
+function collectStaticStrings(node: LSFNode, indexMap: Map<string, number>): void {
+	if (!indexMap.has(node.name)) indexMap.set(node.name, indexMap.size);
+	for (const name of Object.keys(node.attributes)) {
+		if (!indexMap.has(name)) indexMap.set(name, indexMap.size);
+	}
+	for (const child of node.children) collectStaticStrings(child, indexMap);
+}
+
+function u32(value: number): Buffer {
+	const b = Buffer.alloc(4);
+	b.writeUInt32LE(value >>> 0, 0);
+	return b;
+}
+
+/** UTF-8 mit Längenpräfix; nullTerminated = Länge und Daten enthalten ein abschließendes 0-Byte */
+function lengthPrefixed(s: string, nullTerminated: boolean): Buffer {
+	const enc = Buffer.from(nullTerminated ? s + "\0" : s, "utf8");
+	return Buffer.concat([u32(enc.length), enc]);
+}
+
+function serializeLsbValue(attr: LSFAttribute, isBG3: boolean): Buffer {
+	const typed = createAttribute(attr.name, attr.type, attr.value);
+	switch (typed.type) {
+		case NodeAttributeType.String:
+		case NodeAttributeType.Path:
+		case NodeAttributeType.FixedString:
+		case NodeAttributeType.LSString:
+			return lengthPrefixed(typed.value, true);
+		case NodeAttributeType.WString:
+		case NodeAttributeType.LSWString: {
+			// Länge in UTF-16-Zeichen inkl. Terminator
+			const enc = Buffer.from(typed.value + "\0", "utf16le");
+			return Buffer.concat([u32(enc.length / 2), enc]);
+		}
+		case NodeAttributeType.TranslatedString: {
+			const ts = typed.value;
+			const handle = lengthPrefixed(ts.handle, true);
+			// BG3 ohne Wert: Version (u16) + Handle; mit Wert wie DOS2, der Reader erkennt beides
+			if (isBG3 && !ts.value) return Buffer.concat([Buffer.alloc(2), handle]);
+			return Buffer.concat([lengthPrefixed(ts.value, true), handle]);
+		}
+		case NodeAttributeType.ScratchBuffer:
+			return Buffer.concat([u32(typed.value.length), typed.value]);
+		case NodeAttributeType.TranslatedFSString:
+			throw new Error(`LSB unterstützt keine TranslatedFSString-Attribute (${attr.name})`);
+		default:
+			return serializeAttributeValue(typed, isBG3);
+	}
+}
+
+function serializeNode(node: LSFNode, indexMap: Map<string, number>, isBG3: boolean, chunks: Buffer[]): void {
+	const attributes = Object.entries(node.attributes);
+	chunks.push(u32(indexMap.get(node.name)!), u32(attributes.length), u32(node.children.length));
+	for (const [name, attr] of attributes) {
+		chunks.push(u32(indexMap.get(name)!), u32(attr.type), serializeLsbValue(attr, isBG3));
+	}
+	for (const child of node.children) serializeNode(child, indexMap, isBG3, chunks);
+}
+
+/** LSB als Buffer; Version ≥ 4 schreibt die BG3-Signatur ("LSFM") */
+export function writeLsbToBuffer(root: LSFNode, version?: LsfVersion): Buffer {
+	const v = version ?? { major: 3, minor: 6, revision: 9, build: 0 };
+	const isBG3 = v.major >= 4;
+	const regions = root.name === "save" && root.children.length > 0 ? root.children : [root];
+
+	const indexMap = new Map<string, number>();
+	for (const region of regions) collectStaticStrings(region, indexMap);
+	const stringChunks: Buffer[] = [u32(indexMap.size)];
+	for (const [s, index] of indexMap) stringChunks.push(lengthPrefixed(s, false), u32(index));
+	const strings = Buffer.concat(stringChunks);
+
+	// Regionen-Tabelle: Name + absoluter Offset des Wurzel-Nodes
+	const regionTable = Buffer.alloc(4 + regions.length * 8);
+	regionTable.writeUInt32LE(regions.length, 0);
+	const nodeChunks: Buffer[] = [];
+	let offset = LSB_HEADER_SIZE + strings.length + regionTable.length;
+	regions.forEach((region, i) => {
+		const start = nodeChunks.length;
+		serializeNode(region, indexMap, isBG3, nodeChunks);
+		regionTable.writeUInt32LE(indexMap.get(region.name)!, 4 + i * 8);
+		regionTable.writeUInt32LE(offset, 8 + i * 8);
+		for (let c = start; c < nodeChunks.length; c++) offset += nodeChunks[c].length;
+	});
+
+	const header = Buffer.alloc(LSB_HEADER_SIZE);
+	header.writeUInt32LE(isBG3 ? LSB_SIGNATURE_BG3 : LSB_SIGNATURE_FW3, 0);
+	header.writeUInt32LE(offset, 4); // TotalSize
+	header.writeUInt32LE(0, 8); // BigEndian
+	header.writeUInt32LE(0, 12); // Unknown
+	header.writeBigUInt64LE(0n, 16); // Timestamp
+	header.writeUInt32LE(v.major, 24);
+	header.writeUInt32LE(v.minor, 28);
+	header.writeUInt32LE(v.revision, 32);
+	header.writeUInt32LE(v.build, 36);
+	return Buffer.concat([header, strings, regionTable, ...nodeChunks]);
+}
+
+export function writeLsb(root: LSFNode, outputPath: string, version?: LsfVersion): void {
+	writeFileSync(outputPath, writeLsbToBuffer(root, version));
+}
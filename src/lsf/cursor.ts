@@ -0,0 +1,108 @@
+/**
+ * Lazy-Zugriff auf LSF-Nodes direkt über die Node- und Attribut-Tabellen des LSFReader,
+ * ohne den LSFNode-Baum aufzubauen. Attributwerte werden erst beim Zugriff dekodiert.
+ *
+ * @example
+ * const reader = new LSFReader("meta.lsf");
+ * const level = reader.select("MetaData/MetaData")[0]?.value("Level");
+ * reader.walk((node) => (node.name === "Character" ? (names.push(node.value("Name")), false) : true));
+ */
+
+import type { AttributeValue, LSFAttribute, LSFNode } from "./types.js";
+
+/** Sicht des LSFReader auf seine geparsten Tabellen (Node-Indizes wie im Nodes-Block) */
+export interface LSFNodeTable {
+	name(index: number): string;
+	key(index: number): string | undefined;
+	/** Parent-Index oder -1 für Regionen */
+	parent(index: number): number;
+	/** Kinder in derselben Reihenfolge wie in read() */
+	children(index: number): number[];
+	attributeNames(index: number): string[];
+	attribute(index: number, name: string): LSFAttribute | undefined;
+	/** Teilbaum ab index wie in read() */
+	build(index: number): LSFNode;
+}
+
+/** Rückgabe false: Kinder dieses Nodes überspringen */
+export type LSFVisitor = (node: LSFNodeCursor, depth: number) => boolean | void;
+
+export class LSFNodeCursor {
+	constructor(
+		private readonly table: LSFNodeTable,
+		public readonly index: number
+	) {}
+
+	get name(): string {
+		return this.table.name(this.index);
+	}
+
+	get key(): string | undefined {
+		return this.table.key(this.index);
+	}
+
+	public attributeNames(): string[] {
+		return this.table.attributeNames(this.index);
+	}
+
+	/** Attribut mit dekodiertem Wert (wie in read()); undefined wenn nicht vorhanden */
+	public attribute(name: string): LSFAttribute | undefined {
+		return this.table.attribute(this.index, name);
+	}
+
+	/** Nur der Wert; für den genauen Typ attribute(name) verwenden und nach attr.type unterscheiden */
+	public value(name: string): AttributeValue | undefined {
+		return this.table.attribute(this.index, name)?.value;
+	}
+
+	public parent(): LSFNodeCursor | undefined {
+		const parent = this.table.parent(this.index);
+		return parent >= 0 ? new LSFNodeCursor(this.table, parent) : undefined;
+	}
+
+	/** Kinder, optional nur mit diesem Namen */
+	public children(name?: string): LSFNodeCursor[] {
+		const result: LSFNodeCursor[] = [];
+		for (const index of this.table.children(this.index)) {
+			if (name === undefined || this.table.name(index) === name) result.push(new LSFNodeCursor(this.table, index));
+		}
+		return result;
+	}
+
+	/** Nachfahren entlang eines Pfads relativ zu diesem Node, z.B. "Character/Stats" */
+	public select(path: string): LSFNodeCursor[] {
+		return selectPath(this.children(), path);
+	}
+
+	/** Tiefensuche ab diesem Node (depth 0), iterativ */
+	public walk(visitor: LSFVisitor): void {
+		walkNodes([this], visitor);
+	}
+
+	/** Teilbaum als LSFNode materialisieren */
+	public toNode(): LSFNode {
+		return this.table.build(this.index);
+	}
+}
+
+/** Pfad "A/B/C": erstes Segment prüft die Startknoten selbst, jedes weitere deren Kinder; "*" passt auf jeden Namen */
+export function selectPath(start: LSFNodeCursor[], path: string): LSFNodeCursor[] {
+	const segments = path.split("/").filter((s) => s !== "");
+	if (segments.length === 0) return start;
+	const matches = (node: LSFNodeCursor, segment: string) => segment === "*" || node.name === segment;
+	let current = start.filter((node) => matches(node, segments[0]));
+	for (const segment of segments.slice(1)) {
+		current = current.flatMap((node) => node.children(segment === "*" ? undefined : segment));
+	}
+	return current;
+}
+
+export function walkNodes(roots: LSFNodeCursor[], visitor: LSFVisitor): void {
+	const stack: [LSFNodeCursor, number][] = roots.map((node): [LSFNodeCursor, number] => [node, 0]).reverse();
+	while (stack.length > 0) {
+		const [node, depth] = stack.pop()!;
+		if (visitor(node, depth) === false) continue;
+		const children = node.children();
+		for (let i = children.length - 1; i >= 0; i--) stack.push([children[i], depth + 1]);
+	}
+}
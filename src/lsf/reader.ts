@@ -1,6 +1,24 @@
 import { readFileSync } from "node:fs";
-import { LSFAttribute, LSFAttributeEntry, LSFHeader, LSFMetadataBlock, LSFNode, LSFNodeEntry, NodeAttributeType, TranslatedFSStringValue } from "./types.js";
+import {
+	AttributeValue,
+	LSFAttribute,
+	LSFAttributeEntry,
+	LSFHeader,
+	LSFMetadataBlock,
+	LSFNode,
+	LSFNodeEntry,
+	MatrixValue,
+	NodeAttributeType,
+	TranslatedFSStringValue,
+	TranslatedStringValue,
+	Vec2Value,
+	Vec3Value,
+	Vec4Value,
+	matrixShape
+} from "./types.js";
 import { decompress as decompressZstd } from "fzstd";
+import { LSFNodeCursor, selectPath, walkNodes } from "./cursor.js";
+import type { LSFNodeTable, LSFVisitor } from "./cursor.js";
 
 import { createRequire } from "node:module";
 const require = createRequire(import.meta.url);
@@ -80,18 +98,43 @@ export class LSFReader {
 	private nodes: LSFNodeEntry[] = [];
 	private attributes: LSFAttributeEntry[] = [];
 	private values!: Buffer;
+	/** Node-Index → Key (BG3 KeysAndAdjacency) */
+	private nodeKeys = new Map<number, string>();
+	/** Parent → Kinder-Indizes (aufsteigend nach Node-Index), einmalig beim Parsen aufgebaut */
+	private childIndices: (number[] | undefined)[] = [];
+	private rootIndices: number[] = [];
+	private parsed = false;
+	private nodeTable?: LSFNodeTable;
 
 	constructor(pathOrBuffer: string | Buffer) {
 		this.buffer = Buffer.isBuffer(pathOrBuffer) ? pathOrBuffer : readFileSync(pathOrBuffer);
 	}
 
 	public read(): LSFNode {
-		this.readHeader();
-		this.readMetadata();
-		this.readBlocks();
+		this.parse();
 		return this.reconstructTree();
 	}
 
+	/** Regionen als Lazy-Cursor, ohne den Baum aufzubauen */
+	public roots(): LSFNodeCursor[] {
+		this.parse();
+		const table = this.table();
+		return this.rootIndices.map((index) => new LSFNodeCursor(table, index));
+	}
+
+	/**
+	 * Nodes entlang eines Pfads ab den Regionen, z.B. "Characters/Character" oder "MetaData/*";
+	 * Attributwerte werden erst beim Zugriff dekodiert.
+	 */
+	public select(path: string): LSFNodeCursor[] {
+		return selectPath(this.roots(), path);
+	}
+
+	/** Tiefensuche über alle Regionen (depth 0 = Region); visitor gibt false zurück, um Kinder zu überspringen */
+	public walk(visitor: LSFVisitor): void {
+		walkNodes(this.roots(), visitor);
+	}
+
 	/** Engine-Version aus dem LSF-Header. */
 	public getEngineVersion(): { major: number; minor: number; revision: number; build: number } {
 		const v = this.header.engineVersion;
@@ -113,6 +156,15 @@ export class LSFReader {
 		};
 	}
 
+	private parse() {
+		if (this.parsed) return;
+		this.readHeader();
+		this.readMetadata();
+		this.readBlocks();
+		this.indexChildren();
+		this.parsed = true;
+	}
+
 	private readHeader() {
 		const magic = this.buffer.toString("utf8", 0, 4);
 		if (magic !== "LSOF") {
@@ -155,7 +207,7 @@ export class LSFReader {
 			};
 			this.offset = o + 48; // 10*4 + 1 + 1 + 2 + 4
 		} else {
-			// DOS2 v3: LSFMetadataV5
+			// v1–v5 (DOS2: v3): LSFMetadataV5
 			this.meta = {
 				strings: {
 					uncompressedSize: this.buffer.readUInt32LE(o),
@@ -173,8 +225,9 @@ export class LSFReader {
 					uncompressedSize: this.buffer.readUInt32LE(o + 24),
 					compressedSize: this.buffer.readUInt32LE(o + 28)
 				},
-				compressionFlags: this.buffer.readUInt32LE(o + 32),
-				metadataFormat: this.buffer.readUInt8(o + 39) ?? 0
+				compressionFlags: this.buffer.readUInt8(o + 32),
+				// HasSiblingData (u32); ältere Versionen dieses Writers setzten nur das Byte bei o + 39
+				metadataFormat: this.header.version >= 3 && this.buffer.readUInt32LE(o + 36) !== 0 ? 1 : 0
 			};
 			this.offset = o + 40;
 		}
@@ -186,34 +239,17 @@ export class LSFReader {
 		const stringBuf = this.decompressBlock(strings, false); // allowChunked=false für Strings
 		this.parseStringTable(stringBuf);
 
-		// BG3 v6+: Block-Reihenfolge auf Disk ist strings, nodes, keys, attrs, values
-		// Keys+Attrs können als ein LZ4-Frame zusammengefasst sein
-		if (this.header.version >= 6) {
-			const nodeBuf = this.decompressBlock(nodes, true);
-			this.parseNodes(nodeBuf);
-
-			if (this.meta.keys && (this.meta.keys.compressedSize > 0 || this.meta.keys.uncompressedSize > 0)) {
-				// Keys+Attrs als kombinierter Block versuchen (LZ4-Frame umspannt beide)
-				const combinedSize = this.meta.keys.compressedSize + attributes.compressedSize;
-				const combinedBuf = this.decompressBlock({ uncompressedSize: attributes.uncompressedSize, compressedSize: combinedSize }, true);
-				// Keys-Daten verwerfen, nur Attrs verwenden
-				this.parseAttributes(combinedBuf);
-			} else {
-				const attrBuf = this.decompressBlock(attributes, true);
-				this.parseAttributes(attrBuf);
-			}
-		} else {
-			// DOS2 v3/v5: strings, keys (falls v6), nodes, attrs, values
-			if (this.meta.keys && (this.meta.keys.compressedSize > 0 || this.meta.keys.uncompressedSize > 0)) {
-				this.decompressBlock(this.meta.keys, true);
-			}
-			const nodeBuf = this.decompressBlock(nodes, true);
-			this.parseNodes(nodeBuf);
-			const attrBuf = this.decompressBlock(attributes, true);
-			this.parseAttributes(attrBuf);
-		}
-
+		const nodeBuf = this.decompressBlock(nodes, true);
+		this.parseNodes(nodeBuf);
+		const attrBuf = this.decompressBlock(attributes, true);
+		this.parseAttributes(attrBuf);
 		this.values = this.decompressBlock(values, true, true); // isValues=true für Fallback
+
+		// BG3 v6+ (wie LSLib): Keys-Block nach den Values
+		const keys = this.meta.keys;
+		if (keys && (keys.compressedSize > 0 || keys.uncompressedSize > 0)) {
+			this.parseKeys(this.decompressBlock(keys, true));
+		}
 	}
 
 	private decompressBlock(meta: { uncompressedSize: number; compressedSize: number }, allowChunked: boolean, isValues: boolean = false): Buffer {
@@ -348,6 +384,17 @@ export class LSFReader {
 		}
 	}
 
+	/** LSFKeyEntry (8 B): NodeIndex, KeyName (Index in die String-Tabelle) */
+	private parseKeys(buffer: Buffer) {
+		for (let off = 0; off + 8 <= buffer.length; off += 8) {
+			const nodeIndex = buffer.readUInt32LE(off);
+			if (nodeIndex >= this.nodes.length) {
+				throw new Error(`Invalid LSF: Key für Node ${nodeIndex}, aber nur ${this.nodes.length} Nodes`);
+			}
+			this.nodeKeys.set(nodeIndex, this.resolveName(buffer.readUInt32LE(off + 4)));
+		}
+	}
+
 	private parseAttributes(buffer: Buffer) {
 		// V2 (12 B): NameHashTableIndex, TypeAndLength, NodeIndex
 		// V3 (16 B): NameHashTableIndex, TypeAndLength, NextAttributeIndex, Offset
@@ -384,42 +431,98 @@ export class LSFReader {
 		}
 	}
 
-	private reconstructTree(): LSFNode {
+	private indexChildren() {
 		if (this.nodes.length === 0) throw new Error("No nodes found");
-		let rootIndices = this.nodes.map((n, i) => (n.parentIndex === -1 ? i : -1)).filter((i) => i >= 0);
-		if (rootIndices.length === 0) throw new Error("No root node found");
-		if (this.meta.metadataFormat === 1 && rootIndices.length > 1) {
-			const referenced = new Set(rootIndices.map((i) => this.nodes[i].nextSiblingIndex).filter((s) => s >= 0));
-			const first = rootIndices.find((i) => !referenced.has(i)) ?? rootIndices[0];
-			rootIndices = [];
-			let cur: number = first;
-			while (cur >= 0) {
-				rootIndices.push(cur);
-				cur = this.nodes[cur].nextSiblingIndex;
-			}
-		}
-		if (rootIndices.length === 1) {
-			return this.buildNodeRecursive(rootIndices[0], 0);
-		}
-		const virtualRoot: LSFNode = { name: "save", attributes: {}, children: [] };
-		for (const idx of rootIndices) {
-			virtualRoot.children.push(this.buildNodeRecursive(idx, 0));
-		}
-		return virtualRoot;
+		const rootCandidates: number[] = [];
+		this.childIndices = new Array(this.nodes.length);
+		this.nodes.forEach((n, i) => {
+			if (n.parentIndex === -1) rootCandidates.push(i);
+			else if (n.parentIndex >= 0 && n.parentIndex < this.nodes.length && n.parentIndex !== i) (this.childIndices[n.parentIndex] ??= []).push(i);
+		});
+		if (rootCandidates.length === 0) throw new Error("No root node found");
+		this.rootIndices = this.meta.metadataFormat === 1 && rootCandidates.length > 1 ? this.followSiblingChain(rootCandidates) : rootCandidates;
 	}
 
-	private buildNodeRecursive(nodeIdx: number, depth: number = 0): LSFNode {
-		if (depth > 100) throw new Error("Build recursion depth exceeded");
-		const nodeEntry = this.nodes[nodeIdx];
-		const nodeName = this.resolveName(nodeEntry.nameIndex);
+	/** Kinder in LSF-Reihenfolge (metadataFormat 1: nextSiblingIndex-Kette, sonst nach Namen gruppiert) */
+	private orderedChildren(nodeIdx: number): number[] {
+		const children = this.childIndices[nodeIdx];
+		if (!children) return [];
+		return this.meta.metadataFormat === 1 ? this.followSiblingChain(children) : this.groupByName(children);
+	}
 
-		const node: LSFNode = {
-			name: nodeName,
-			attributes: {},
-			children: []
+	private reconstructTree(): LSFNode {
+		const roots = this.buildSubtrees(this.rootIndices);
+		if (roots.length === 1) return roots[0];
+		return { name: "save", attributes: {}, children: roots };
+	}
+
+	/** Iterativ statt rekursiv: beliebig tiefe Bäume ohne Stack-Limit */
+	private buildSubtrees(rootIndices: number[]): LSFNode[] {
+		const built = new Uint8Array(this.nodes.length);
+		const pending: [number, LSFNode][] = [];
+		const createNode = (nodeIdx: number): LSFNode => {
+			if (built[nodeIdx]) throw new Error(`Invalid LSF: Node ${nodeIdx} mehrfach im Baum`);
+			built[nodeIdx] = 1;
+			const node = this.buildNode(nodeIdx);
+			pending.push([nodeIdx, node]);
+			return node;
+		};
+		const roots = rootIndices.map(createNode);
+		while (pending.length > 0) {
+			const [nodeIdx, node] = pending.pop()!;
+			for (const i of this.orderedChildren(nodeIdx)) node.children.push(createNode(i));
+		}
+		return roots;
+	}
+
+	private table(): LSFNodeTable {
+		this.nodeTable ??= {
+			name: (index) => this.resolveName(this.nodes[index].nameIndex),
+			key: (index) => this.nodeKeys.get(index),
+			parent: (index) => this.nodes[index].parentIndex,
+			children: (index) => this.orderedChildren(index),
+			attributeNames: (index) => this.attributeChain(index).map(({ name }) => name),
+			attribute: (index, name) => {
+				// Bei doppelten Namen gewinnt wie in read() das letzte Attribut
+				const found = this.attributeChain(index)
+					.filter((a) => a.name === name)
+					.pop();
+				return found && this.readAttribute(name, found.entry, found.offset);
+			},
+			build: (index) => this.buildSubtrees([index])[0]
 		};
+		return this.nodeTable;
+	}
+
+	/** Geschwister ab dem ersten nicht referenzierten Node entlang nextSiblingIndex */
+	private followSiblingChain(indices: number[]): number[] {
+		const referenced = new Set(indices.map((i) => this.nodes[i].nextSiblingIndex).filter((s) => s >= 0));
+		const first = indices.find((i) => !referenced.has(i)) ?? indices[0];
+		const ordered: number[] = [];
+		const seen = new Set<number>();
+		for (let cur = first; cur >= 0 && cur < this.nodes.length && !seen.has(cur); cur = this.nodes[cur].nextSiblingIndex) {
+			seen.add(cur);
+			ordered.push(cur);
+		}
+		return ordered;
+	}
 
-		let attrIdx = nodeEntry.firstAttributeIndex;
+	/** metadataFormat 0: LSLib Node.Children = Dictionary<Name, List<Node>>, LSXWriter iteriert gruppiert nach Name */
+	private groupByName(indices: number[]): number[] {
+		const groups = new Map<string, number[]>();
+		for (const i of indices) {
+			const name = this.resolveName(this.nodes[i].nameIndex);
+			const group = groups.get(name);
+			if (group) group.push(i);
+			else groups.set(name, [i]);
+		}
+		return [...groups.values()].flat();
+	}
+
+	/** Attribute eines Nodes entlang nextAttributeIndex mit Wert-Offset, ohne Werte zu dekodieren */
+	private attributeChain(nodeIdx: number): { name: string; entry: LSFAttributeEntry; offset: number }[] {
+		const chain: { name: string; entry: LSFAttributeEntry; offset: number }[] = [];
+		let attrIdx = this.nodes[nodeIdx].firstAttributeIndex;
 		let runningOffset = 0;
 		let visitedAttrs = new Set<number>();
 
@@ -427,57 +530,31 @@ export class LSFReader {
 			if (visitedAttrs.has(attrIdx)) break;
 			visitedAttrs.add(attrIdx);
 
-			const attrEntry = this.attributes[attrIdx];
-			const name = this.resolveName(attrEntry.nameIndex);
-			const actualOffset = attrEntry.offset || runningOffset;
-
-			node.attributes[name] = {
-				name,
-				type: attrEntry.type,
-				value: this.readAttributeValue(attrEntry, actualOffset)
-			};
+			const entry = this.attributes[attrIdx];
+			const offset = entry.offset || runningOffset;
+			chain.push({ name: this.resolveName(entry.nameIndex), entry, offset });
 
-			runningOffset = actualOffset + attrEntry.length;
-			attrIdx = attrEntry.nextAttributeIndex;
+			runningOffset = offset + entry.length;
+			attrIdx = entry.nextAttributeIndex;
 		}
+		return chain;
+	}
 
-		// Kinder in LSF-Reihenfolge (nextSiblingIndex-Kette bei metadataFormat 1)
-		const childIndices = this.nodes
-			.map((n, i) => (n.parentIndex === nodeIdx && i !== nodeIdx ? i : -1))
-			.filter((i) => i >= 0);
-		if (childIndices.length > 0 && this.meta.metadataFormat === 1) {
-			// metadataFormat 1: nextSiblingIndex-Kette für korrekte Reihenfolge
-			const referenced = new Set(childIndices.map((i) => this.nodes[i].nextSiblingIndex).filter((s) => s >= 0));
-			let first = childIndices.find((i) => !referenced.has(i));
-			if (first === undefined) first = childIndices[0];
-			const ordered: number[] = [];
-			let cur: number = first;
-			while (cur >= 0) {
-				ordered.push(cur);
-				cur = this.nodes[cur].nextSiblingIndex;
-			}
-			for (const i of ordered) {
-				node.children.push(this.buildNodeRecursive(i, depth + 1));
-			}
-		} else {
-			// metadataFormat 0: LSLib Node.Children = Dictionary<Name, List<Node>>, LSXWriter iteriert gruppiert nach Name
-			childIndices.sort((a, b) => a - b);
-			const namesInOrder: string[] = [];
-			for (const i of childIndices) {
-				const name = this.resolveName(this.nodes[i].nameIndex);
-				if (!namesInOrder.includes(name)) namesInOrder.push(name);
-			}
-			childIndices.sort((a, b) => {
-				const nameA = this.resolveName(this.nodes[a].nameIndex);
-				const nameB = this.resolveName(this.nodes[b].nameIndex);
-				const posA = namesInOrder.indexOf(nameA);
-				const posB = namesInOrder.indexOf(nameB);
-				if (posA !== posB) return posA - posB;
-				return a - b;
-			});
-			for (const i of childIndices) {
-				node.children.push(this.buildNodeRecursive(i, depth + 1));
-			}
+	/** Node mit Name, Key und Attributen; Kinder hängt buildSubtrees an */
+	private buildNode(nodeIdx: number): LSFNode {
+		const nodeEntry = this.nodes[nodeIdx];
+		const nodeName = this.resolveName(nodeEntry.nameIndex);
+
+		const node: LSFNode = {
+			name: nodeName,
+			attributes: {},
+			children: []
+		};
+		const key = this.nodeKeys.get(nodeIdx);
+		if (key !== undefined) node.key = key;
+
+		for (const { name, entry, offset } of this.attributeChain(nodeIdx)) {
+			node.attributes[name] = this.readAttribute(name, entry, offset);
 		}
 
 		return node;
@@ -511,7 +588,7 @@ export class LSFReader {
 	}
 
 	/** DOS2: valueLength, value, handleLength, handle. BG3: +Version (2B) am Anfang */
-	private readTranslatedString(buf: Buffer): { value: string; handle: string } {
+	private readTranslatedString(buf: Buffer): TranslatedStringValue {
 		let pos = 0;
 		if (buf.length < 8) return { value: "", handle: "" };
 		const valueLen = buf.readInt32LE(pos);
@@ -594,9 +671,35 @@ export class LSFReader {
 		return this.readTranslatedFSStringWithLength(buf).result;
 	}
 
-	private readAttributeValue(attr: LSFAttributeEntry, offset: number): any {
+	/** LSLib: Floats spaltenweise gespeichert (für jede Spalte alle Zeilen); fehlende Komponenten sind 0 */
+	private readMatrix(type: NodeAttributeType, buf: Buffer): MatrixValue {
+		const { rows, columns } = matrixShape(type)!;
+		const mat: MatrixValue = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+		for (let col = 0; col < columns; col++) {
+			for (let row = 0; row < rows; row++) {
+				const o = (col * rows + row) * 4;
+				if (o + 4 <= buf.length) mat[row][col] = buf.readFloatLE(o);
+			}
+		}
+		return mat;
+	}
+
+	/** IVec/Vec: count Komponenten zu je 4 Byte; fehlende Komponenten sind 0 */
+	private readVector<T extends number[]>(buf: Buffer, count: number, isInt: boolean): T {
+		const comps: number[] = [];
+		for (let i = 0; i < count; i++) {
+			const o = i * 4;
+			comps.push(o + 4 > buf.length ? 0 : isInt ? buf.readInt32LE(o) : buf.readFloatLE(o));
+		}
+		return comps as T;
+	}
+
+	private readAttribute(name: string, entry: LSFAttributeEntry, offset: number): LSFAttribute {
+		return { name, type: entry.type, value: this.readAttributeValue(entry, offset) } as LSFAttribute;
+	}
+
+	private readAttributeValue(attr: LSFAttributeEntry, offset: number): AttributeValue {
 		const buf = this.values.subarray(offset, offset + attr.length);
-		if (buf.length === 0 && attr.length > 0) return "";
 
 		switch (attr.type) {
 			case NodeAttributeType.Byte:
@@ -616,17 +719,23 @@ export class LSFReader {
 			case NodeAttributeType.Bool:
 				return buf.length >= 1 ? buf.readInt8(0) !== 0 : false;
 			case NodeAttributeType.IVec2:
-				return buf.length >= 8 ? `${buf.readInt32LE(0)} ${buf.readInt32LE(4)}` : buf.toString("hex");
+				return this.readVector<Vec2Value>(buf, 2, true);
 			case NodeAttributeType.IVec3:
-				return buf.length >= 12 ? `${buf.readInt32LE(0)} ${buf.readInt32LE(4)} ${buf.readInt32LE(8)}` : buf.toString("hex");
+				return this.readVector<Vec3Value>(buf, 3, true);
 			case NodeAttributeType.IVec4:
-				return buf.length >= 16 ? `${buf.readInt32LE(0)} ${buf.readInt32LE(4)} ${buf.readInt32LE(8)} ${buf.readInt32LE(12)}` : buf.toString("hex");
+				return this.readVector<Vec4Value>(buf, 4, true);
 			case NodeAttributeType.Vec2:
-				return buf.length >= 8 ? `${buf.readFloatLE(0)} ${buf.readFloatLE(4)}` : buf.toString("hex");
+				return this.readVector<Vec2Value>(buf, 2, false);
 			case NodeAttributeType.Vec3:
-				return buf.length >= 12 ? `${buf.readFloatLE(0)} ${buf.readFloatLE(4)} ${buf.readFloatLE(8)}` : buf.toString("hex");
+				return this.readVector<Vec3Value>(buf, 3, false);
 			case NodeAttributeType.Vec4:
-				return buf.length >= 16 ? `${buf.readFloatLE(0)} ${buf.readFloatLE(4)} ${buf.readFloatLE(8)} ${buf.readFloatLE(12)}` : buf.toString("hex");
+				return this.readVector<Vec4Value>(buf, 4, false);
+			case NodeAttributeType.Mat2:
+			case NodeAttributeType.Mat3:
+			case NodeAttributeType.Mat3x4:
+			case NodeAttributeType.Mat4x3:
+			case NodeAttributeType.Mat4:
+				return this.readMatrix(attr.type, buf);
 			case NodeAttributeType.String:
 			case NodeAttributeType.Path:
 			case NodeAttributeType.FixedString:
@@ -637,14 +746,15 @@ export class LSFReader {
 			case NodeAttributeType.UUID:
 				return buf.length === 16 ? this.formatUuid(buf, true) : buf.toString("hex");
 			case NodeAttributeType.ULongLong:
-				return buf.readBigUInt64LE(0).toString();
+				return buf.length >= 8 ? buf.readBigUInt64LE(0) : 0n;
 			case NodeAttributeType.Long:
 			case NodeAttributeType.Int64:
-				return buf.length >= 8 ? buf.readBigInt64LE(0).toString() : "";
+				return buf.length >= 8 ? buf.readBigInt64LE(0) : 0n;
 			case NodeAttributeType.Int8:
 				return buf.length >= 1 ? buf.readInt8(0) : 0;
 			case NodeAttributeType.ScratchBuffer:
-				return buf.toString("base64");
+				// Kopie, damit der Wert nicht den ganzen Values-Block festhält
+				return new Uint8Array(buf);
 			case NodeAttributeType.TranslatedString:
 				return this.readTranslatedString(buf);
 			case NodeAttributeType.TranslatedFSString:
@@ -40,6 +40,131 @@ export enum NodeAttributeType {
 	TranslatedFSString = 33
 }
 
+/** LSF-Formatversionen (LSLib LSFVersion) */
+export enum LsfFormatVersion {
+	/** Ursprüngliches Format */
+	V1 = 1,
+	/** Kompression in Chunks (VerChunkedCompress) */
+	V2 = 2,
+	/** Erweiterte Node-/Attribut-Einträge möglich (VerExtendedNodes), D:OS 2 */
+	V3 = 3,
+	/** BG3 Early Access (VerBG3) */
+	V4 = 4,
+	/** 64-Bit-Engine-Version im Header (VerBG3ExtendedHeader) */
+	V5 = 5,
+	/** Metadaten mit Keys-Block (VerBG3NodeKeys) */
+	V6 = 6,
+	/** BG3 Patch 3 (VerBG3Patch3) */
+	V7 = 7
+}
+
+/** LSLib-Typnamen (AttributeTypeMaps, wie in BG3-LSX und LSJ), Index = NodeAttributeType */
+const LSLIB_TYPE_NAMES = [
+	"None",
+	"uint8",
+	"int16",
+	"uint16",
+	"int32",
+	"uint32",
+	"float",
+	"double",
+	"ivec2",
+	"ivec3",
+	"ivec4",
+	"fvec2",
+	"fvec3",
+	"fvec4",
+	"mat2x2",
+	"mat3x3",
+	"mat3x4",
+	"mat4x3",
+	"mat4x4",
+	"bool",
+	"string",
+	"path",
+	"FixedString",
+	"LSString",
+	"uint64",
+	"ScratchBuffer",
+	"old_int64",
+	"int8",
+	"TranslatedString",
+	"WString",
+	"LSWString",
+	"guid",
+	"int64",
+	"TranslatedFSString"
+];
+
+/** LSLib-Typname eines Attributtyps ("guid", "fvec3", "FixedString", …) */
+export function attributeTypeName(type: NodeAttributeType): string {
+	const name = LSLIB_TYPE_NAMES[type];
+	if (name === undefined) throw new Error(`Unbekannter Attributtyp: ${type}`);
+	return name;
+}
+
+/** Attributtyp aus LSLib-Namen oder Enum-Namen (z.B. "guid" oder "UUID"); undefined wenn unbekannt */
+export function parseAttributeTypeName(name: string): NodeAttributeType | undefined {
+	const index = LSLIB_TYPE_NAMES.indexOf(name);
+	if (index >= 0) return index as NodeAttributeType;
+	const value = (NodeAttributeType as unknown as Record<string, number>)[name];
+	return typeof value === "number" ? (value as NodeAttributeType) : undefined;
+}
+
+/**
+ * Zeilen und Spalten der Matrix-Typen (LSLib GetRows/GetColumns); undefined für andere Typen.
+ * Mat3x4 = 3 Zeilen × 4 Spalten, Mat4x3 = 4 Zeilen × 3 Spalten.
+ */
+export function matrixShape(type: NodeAttributeType): { rows: number; columns: number } | undefined {
+	switch (type) {
+		case NodeAttributeType.Mat2:
+			return { rows: 2, columns: 2 };
+		case NodeAttributeType.Mat3:
+			return { rows: 3, columns: 3 };
+		case NodeAttributeType.Mat3x4:
+			return { rows: 3, columns: 4 };
+		case NodeAttributeType.Mat4x3:
+			return { rows: 4, columns: 3 };
+		case NodeAttributeType.Mat4:
+			return { rows: 4, columns: 4 };
+		default:
+			return undefined;
+	}
+}
+
+/** Matrix-Wert (Mat2 … Mat4) als Zeilen von Floats: value[zeile][spalte] */
+export type MatrixValue = number[][];
+
+/** Float-Text wie LSLib schreibt, auch "NaN", "Infinity" und "-Infinity"; Unlesbares wird 0 */
+function parseFloatValue(value: unknown): number {
+	if (typeof value === "number") return value;
+	const text = String(value ?? "").trim();
+	return text === "NaN" ? NaN : parseFloat(text) || 0;
+}
+
+/**
+ * Matrix aus LSX-Text oder Array: Komponenten zeilenweise (wie LSLib-LSX), getrennt durch Leerzeichen.
+ * Fehlende Komponenten sind 0.
+ */
+export function toMatrixValue(type: NodeAttributeType, value: unknown): MatrixValue {
+	const shape = matrixShape(type);
+	if (!shape) throw new Error(`Kein Matrix-Typ: ${NodeAttributeType[type] ?? type}`);
+	const items: unknown[] = Array.isArray(value)
+		? value.flat()
+		: String(value ?? "")
+				.trim()
+				.split(/\s+/)
+				.filter((s) => s !== "");
+	if (items.length > shape.rows * shape.columns) {
+		throw new Error(`${NodeAttributeType[type]}: ${items.length} Werte, erwartet ${shape.rows * shape.columns}`);
+	}
+	const flat = items.map(Number);
+	if (flat.some((n, i) => Number.isNaN(n) && String(items[i]) !== "NaN")) {
+		throw new Error(`${NodeAttributeType[type]}: ungültiger Wert ${JSON.stringify(value)}`);
+	}
+	return Array.from({ length: shape.rows }, (_, row) => Array.from({ length: shape.columns }, (_, col) => flat[row * shape.columns + col] ?? 0));
+}
+
 export interface LSFHeader {
 	magic: string;
 	version: number;
@@ -79,12 +204,18 @@ export interface LSFAttributeEntry {
 
 export interface LSFNode {
 	name: string;
-	/** UUID für eindeutige Node-Referenz (BG3, LSX key-Attribut) */
+	/** Key des Nodes (BG3: Keys-Block ab LSF v6, LSX key-Attribut, LSJ "_Key") */
 	key?: string;
 	attributes: Record<string, LSFAttribute>;
 	children: LSFNode[];
 }
 
+/** TranslatedString: Handle und optional der Text (BG3 speichert meist nur das Handle) */
+export interface TranslatedStringValue {
+	value: string;
+	handle: string;
+}
+
 /** TranslatedFSString mit optionalen Arguments (für Platzhalter wie [Name]) */
 export interface TranslatedFSStringValue {
 	value: string;
@@ -100,8 +231,175 @@ export interface TranslatedFSStringArgument {
 	string?: TranslatedFSStringValue;
 }
 
-export interface LSFAttribute {
-	name: string;
-	type: NodeAttributeType;
-	value: any;
+export type Vec2Value = [number, number];
+export type Vec3Value = [number, number, number];
+export type Vec4Value = [number, number, number, number];
+
+/**
+ * Laufzeitform des Werts je Attributtyp. Byte ist wie im Binärformat gelesen vorzeichenbehaftet (-128–127),
+ * 64-Bit-Typen sind bigint, Vektoren Zahlen-Tupel, Matrizen Zeilen von Floats, ScratchBuffer Rohbytes.
+ */
+export interface AttributeValueMap {
+	[NodeAttributeType.None]: string;
+	[NodeAttributeType.Byte]: number;
+	[NodeAttributeType.Short]: number;
+	[NodeAttributeType.UShort]: number;
+	[NodeAttributeType.Int]: number;
+	[NodeAttributeType.UInt]: number;
+	[NodeAttributeType.Float]: number;
+	[NodeAttributeType.Double]: number;
+	[NodeAttributeType.IVec2]: Vec2Value;
+	[NodeAttributeType.IVec3]: Vec3Value;
+	[NodeAttributeType.IVec4]: Vec4Value;
+	[NodeAttributeType.Vec2]: Vec2Value;
+	[NodeAttributeType.Vec3]: Vec3Value;
+	[NodeAttributeType.Vec4]: Vec4Value;
+	[NodeAttributeType.Mat2]: MatrixValue;
+	[NodeAttributeType.Mat3]: MatrixValue;
+	[NodeAttributeType.Mat3x4]: MatrixValue;
+	[NodeAttributeType.Mat4x3]: MatrixValue;
+	[NodeAttributeType.Mat4]: MatrixValue;
+	[NodeAttributeType.Bool]: boolean;
+	[NodeAttributeType.String]: string;
+	[NodeAttributeType.Path]: string;
+	[NodeAttributeType.FixedString]: string;
+	[NodeAttributeType.LSString]: string;
+	[NodeAttributeType.ULongLong]: bigint;
+	[NodeAttributeType.ScratchBuffer]: Uint8Array;
+	[NodeAttributeType.Long]: bigint;
+	[NodeAttributeType.Int8]: number;
+	[NodeAttributeType.TranslatedString]: TranslatedStringValue;
+	[NodeAttributeType.WString]: string;
+	[NodeAttributeType.LSWString]: string;
+	[NodeAttributeType.UUID]: string;
+	[NodeAttributeType.Int64]: bigint;
+	[NodeAttributeType.TranslatedFSString]: TranslatedFSStringValue;
+}
+
+export type AttributeValue = AttributeValueMap[NodeAttributeType];
+
+/** Attribut als nach type unterschiedene Union: switch (attr.type) engt attr.value auf den passenden Typ ein */
+export type LSFAttribute = { [T in NodeAttributeType]: { name: string; type: T; value: AttributeValueMap[T] } }[NodeAttributeType];
+
+/** Frühere Laufzeitform: Vektoren als Text ("1 2 3"), 64-Bit-Werte als Dezimal-String, ScratchBuffer als Base64 */
+export type LegacyAttributeValue = number | boolean | string | MatrixValue | TranslatedStringValue | TranslatedFSStringValue;
+
+function vectorLength(type: NodeAttributeType): number | undefined {
+	switch (type) {
+		case NodeAttributeType.IVec2:
+		case NodeAttributeType.Vec2:
+			return 2;
+		case NodeAttributeType.IVec3:
+		case NodeAttributeType.Vec3:
+			return 3;
+		case NodeAttributeType.IVec4:
+		case NodeAttributeType.Vec4:
+			return 4;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Typisierter Wert aus typisierter oder früherer Form (z.B. LSX-Text): "1 2 3" → [1, 2, 3],
+ * "123" → 123n bei 64-Bit-Typen, Base64 → Uint8Array bei ScratchBuffer, "True" → true.
+ */
+export function toAttributeValue<T extends NodeAttributeType>(type: T, value: unknown): AttributeValueMap[T];
+export function toAttributeValue(type: NodeAttributeType, value: unknown): AttributeValue {
+	const label = NodeAttributeType[type] ?? String(type);
+	switch (type) {
+		case NodeAttributeType.Byte:
+		case NodeAttributeType.Short:
+		case NodeAttributeType.UShort:
+		case NodeAttributeType.Int:
+		case NodeAttributeType.UInt:
+		case NodeAttributeType.Int8: {
+			const n = typeof value === "number" || typeof value === "bigint" || typeof value === "boolean" ? Number(value) : parseInt(String(value ?? ""), 10) || 0;
+			// Auf den Wertebereich des Typs abbilden (LSX-Byte 0–255 → -128–127 wie im Binärformat gelesen)
+			if (type === NodeAttributeType.Byte || type === NodeAttributeType.Int8) return (n << 24) >> 24;
+			if (type === NodeAttributeType.Short) return (n << 16) >> 16;
+			if (type === NodeAttributeType.UShort) return n & 0xffff;
+			return type === NodeAttributeType.Int ? n | 0 : n >>> 0;
+		}
+		case NodeAttributeType.Float:
+		case NodeAttributeType.Double:
+			return parseFloatValue(value);
+		case NodeAttributeType.Bool:
+			if (typeof value === "boolean") return value;
+			if (typeof value === "number" || typeof value === "bigint") return value !== 0 && value !== 0n;
+			return value === "True" || value === "true" || value === "1";
+		case NodeAttributeType.IVec2:
+		case NodeAttributeType.IVec3:
+		case NodeAttributeType.IVec4:
+		case NodeAttributeType.Vec2:
+		case NodeAttributeType.Vec3:
+		case NodeAttributeType.Vec4: {
+			const parts: unknown[] = Array.isArray(value)
+				? value
+				: String(value ?? "")
+						.trim()
+						.split(/\s+/);
+			const isInt = type <= NodeAttributeType.IVec4;
+			return Array.from({ length: vectorLength(type)! }, (_, i) => (isInt ? Math.trunc(Number(parts[i]) || 0) : parseFloatValue(parts[i]))) as Vec4Value;
+		}
+		case NodeAttributeType.Mat2:
+		case NodeAttributeType.Mat3:
+		case NodeAttributeType.Mat3x4:
+		case NodeAttributeType.Mat4x3:
+		case NodeAttributeType.Mat4:
+			return toMatrixValue(type, value);
+		case NodeAttributeType.ULongLong:
+		case NodeAttributeType.Long:
+		case NodeAttributeType.Int64: {
+			if (typeof value === "bigint") return value;
+			if (typeof value === "number") return BigInt(Math.trunc(value));
+			const text = String(value ?? "").trim();
+			try {
+				return BigInt(text === "" ? 0 : text);
+			} catch {
+				throw new Error(`${label}: ungültiger Wert ${JSON.stringify(value)}`);
+			}
+		}
+		case NodeAttributeType.ScratchBuffer:
+			if (value instanceof Uint8Array) return value;
+			return new Uint8Array(Buffer.from(String(value ?? ""), "base64"));
+		case NodeAttributeType.TranslatedString: {
+			if (typeof value !== "object" || value === null) return { value: String(value ?? ""), handle: "" };
+			const ts = value as Partial<TranslatedStringValue>;
+			return { value: String(ts.value ?? ""), handle: String(ts.handle ?? "") };
+		}
+		case NodeAttributeType.TranslatedFSString: {
+			if (typeof value !== "object" || value === null) return { value: String(value ?? ""), handle: "" };
+			const ts = value as Partial<TranslatedFSStringValue>;
+			return { ...ts, value: String(ts.value ?? ""), handle: String(ts.handle ?? "") };
+		}
+		default:
+			return String(value ?? "");
+	}
+}
+
+/** Wert in der früheren Form (Gegenstück zu toAttributeValue), z.B. für Skripte, die mit Text arbeiten */
+export function toLegacyValue(attr: LSFAttribute): LegacyAttributeValue {
+	switch (attr.type) {
+		case NodeAttributeType.IVec2:
+		case NodeAttributeType.IVec3:
+		case NodeAttributeType.IVec4:
+		case NodeAttributeType.Vec2:
+		case NodeAttributeType.Vec3:
+		case NodeAttributeType.Vec4:
+			return attr.value.join(" ");
+		case NodeAttributeType.ULongLong:
+		case NodeAttributeType.Long:
+		case NodeAttributeType.Int64:
+			return attr.value.toString();
+		case NodeAttributeType.ScratchBuffer:
+			return Buffer.from(attr.value.buffer, attr.value.byteOffset, attr.value.byteLength).toString("base64");
+		default:
+			return attr.value;
+	}
+}
+
+/** Attribut mit Wert in typisierter oder früherer Form (siehe toAttributeValue) */
+export function createAttribute(name: string, type: NodeAttributeType, value: unknown): LSFAttribute {
+	return { name, type, value: toAttributeValue(type, value) } as LSFAttribute;
 }
@@ -1,7 +1,8 @@
-import { writeFileSync, readFileSync, unlinkSync } from "node:fs";
-import { join } from "node:path";
-import { tmpdir } from "node:os";
-import { LSFNode, LSFAttribute, NodeAttributeType, TranslatedFSStringValue } from "./types.js";
+import { writeFileSync } from "node:fs";
+import { LSFNode, LSFAttribute, LsfFormatVersion, NodeAttributeType, TranslatedFSStringValue, createAttribute } from "./types.js";
+import { CompressionFlags, CompressionMethod, makeCompressionFlags } from "../lsv/types.js";
+import type { CompressionLevel } from "../lsv/types.js";
+import { compress } from "../lsv/compression.js";
 import { createRequire } from "node:module";
 const require = createRequire(import.meta.url);
 const lz4 = require("lz4");
@@ -43,11 +44,12 @@ function hashToBucket(hashCode: number): number {
 	);
 }
 
-/** Strings in LSLib-Reihenfolge: WriteRegions → WriteNode → Name, Attrs, Children (depth-first) */
-function collectStringsInOrder(node: LSFNode, out: string[]): void {
+/** Strings in LSLib-Reihenfolge: WriteRegions → WriteNode → Name, Attrs, Key (nur BG3), Children (depth-first) */
+function collectStringsInOrder(node: LSFNode, out: string[], withKeys: boolean): void {
 	out.push(node.name);
 	for (const name of Object.keys(node.attributes)) out.push(name);
-	for (const child of node.children) collectStringsInOrder(child, out);
+	if (withKeys && node.key) out.push(node.key);
+	for (const child of node.children) collectStringsInOrder(child, out, withKeys);
 }
 
 /** LSLib String-Tabelle: 512 Buckets, (bucket<<16)|offset */
@@ -104,17 +106,26 @@ function buildStringTable(stringsInOrder: string[]): { buffer: Buffer; indexMap:
 	return { buffer: buf.subarray(0, off), indexMap };
 }
 
-function flattenNodes(node: LSFNode, parentIdx: number, result: LSFNode[]): number {
-	const idx = result.length;
-	result.push(node);
+interface FlatNode {
+	node: LSFNode;
+	parentIndex: number;
+	nextSiblingIndex: number;
+}
+
+/** Nodes in Tiefensuche (LSLib-Reihenfolge); Parent und nächstes Geschwister werden beim Durchlauf gesetzt */
+function flattenNodes(node: LSFNode, parentIndex: number, result: FlatNode[]): number {
+	const index = result.length;
+	result.push({ node, parentIndex, nextSiblingIndex: -1 });
+	let previous = -1;
 	for (const child of node.children) {
-		flattenNodes(child, idx, result);
+		const childIndex = flattenNodes(child, index, result);
+		if (previous >= 0) result[previous].nextSiblingIndex = childIndex;
+		previous = childIndex;
 	}
-	return idx;
+	return index;
 }
 
-function serializeTranslatedFSString(attr: LSFAttribute, isBG3: boolean): Buffer {
-	const ts = (attr.value as TranslatedFSStringValue) ?? {};
+function serializeTranslatedFSString(ts: TranslatedFSStringValue, isBG3: boolean): Buffer {
 	const v = String(ts.value ?? "");
 	const h = String(ts.handle ?? "");
 	const args = ts.arguments ?? [];
@@ -142,8 +153,7 @@ function serializeTranslatedFSString(attr: LSFAttribute, isBG3: boolean): Buffer
 		kBuf.writeInt32LE(kEnc.length, 0);
 		kEnc.copy(kBuf, 4);
 		chunks.push(kBuf);
-		const sub = arg.string ?? { value: "", handle: "" };
-		chunks.push(serializeTranslatedFSString({ ...attr, value: sub }, isBG3));
+		chunks.push(serializeTranslatedFSString(arg.string ?? { value: "", handle: "" }, isBG3));
 		const valEnc = Buffer.from(arg.value + "\0", "utf8");
 		const valBuf = Buffer.alloc(4 + valEnc.length);
 		valBuf.writeInt32LE(valEnc.length, 0);
@@ -153,45 +163,49 @@ function serializeTranslatedFSString(attr: LSFAttribute, isBG3: boolean): Buffer
 	return Buffer.concat(chunks);
 }
 
-function serializeAttributeValue(attr: LSFAttribute, isBG3: boolean = false): Buffer {
-	const { type, value } = attr;
-	switch (type) {
+/**
+ * Binärwert eines Attributs wie im LSF-Values-Block (Strings ohne Längenpräfix; auch vom LSB-Writer genutzt).
+ * Werte in der früheren Form (z.B. Vektor als Text) werden vorher mit toAttributeValue umgewandelt.
+ */
+export function serializeAttributeValue(attr: LSFAttribute, isBG3: boolean = false): Buffer {
+	const typed = createAttribute(attr.name, attr.type, attr.value);
+	switch (typed.type) {
 		case NodeAttributeType.Byte:
 		case NodeAttributeType.Int8:
-			return Buffer.from([Number(value) & 0xff]);
+			return Buffer.from([typed.value & 0xff]);
 		case NodeAttributeType.Short: {
 			const b = Buffer.alloc(2);
-			const v = Number(value) & 0xffff;
+			const v = typed.value & 0xffff;
 			b.writeInt16LE(v > 32767 ? v - 65536 : v, 0);
 			return b;
 		}
 		case NodeAttributeType.UShort: {
 			const b = Buffer.alloc(2);
-			b.writeUInt16LE(Number(value) & 0xffff, 0);
+			b.writeUInt16LE(typed.value & 0xffff, 0);
 			return b;
 		}
 		case NodeAttributeType.Int: {
 			const b = Buffer.alloc(4);
-			b.writeInt32LE(Number(value) | 0, 0);
+			b.writeInt32LE(typed.value | 0, 0);
 			return b;
 		}
 		case NodeAttributeType.UInt: {
 			const b = Buffer.alloc(4);
-			b.writeUInt32LE(Number(value) >>> 0, 0);
+			b.writeUInt32LE(typed.value >>> 0, 0);
 			return b;
 		}
 		case NodeAttributeType.Float: {
 			const b = Buffer.alloc(4);
-			b.writeFloatLE(Number(value), 0);
+			b.writeFloatLE(typed.value, 0);
 			return b;
 		}
 		case NodeAttributeType.Double: {
 			const b = Buffer.alloc(8);
-			b.writeDoubleLE(Number(value), 0);
+			b.writeDoubleLE(typed.value, 0);
 			return b;
 		}
 		case NodeAttributeType.Bool: {
-			return Buffer.from([value ? 1 : 0]);
+			return Buffer.from([typed.value ? 1 : 0]);
 		}
 		case NodeAttributeType.String:
 		case NodeAttributeType.Path:
@@ -199,23 +213,18 @@ function serializeAttributeValue(attr: LSFAttribute, isBG3: boolean = false): Bu
 		case NodeAttributeType.LSString:
 		case NodeAttributeType.WString:
 		case NodeAttributeType.LSWString: {
-			const s = String(value ?? "");
-			const enc = Buffer.from(s + "\0", "utf8");
-			return enc;
+			return Buffer.from(typed.value + "\0", "utf8");
 		}
 		case NodeAttributeType.UUID: {
-			const hex = String(value ?? "").replace(/-/g, "");
+			const hex = typed.value.replace(/-/g, "");
 			const b = Buffer.alloc(16);
 			for (let i = 0; i < 16; i++) b[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16) || 0;
 			for (let i = 8; i < 16; i += 2) [b[i], b[i + 1]] = [b[i + 1], b[i]];
 			return b;
 		}
 		case NodeAttributeType.TranslatedString: {
-			const ts = (value as { value?: string; handle?: string }) ?? {};
-			const v = String(ts.value ?? "");
-			const h = String(ts.handle ?? "");
-			const vEnc = Buffer.from(v + "\0", "utf8");
-			const hEnc = Buffer.from(h + "\0", "utf8");
+			const vEnc = Buffer.from(typed.value.value + "\0", "utf8");
+			const hEnc = Buffer.from(typed.value.handle + "\0", "utf8");
 			const out = Buffer.alloc(4 + vEnc.length + 4 + hEnc.length);
 			let o = 0;
 			out.writeInt32LE(vEnc.length, o);
@@ -228,259 +237,224 @@ function serializeAttributeValue(attr: LSFAttribute, isBG3: boolean = false): Bu
 			return out;
 		}
 		case NodeAttributeType.TranslatedFSString: {
-			return serializeTranslatedFSString(attr, isBG3);
+			return serializeTranslatedFSString(typed.value, isBG3);
 		}
 		case NodeAttributeType.IVec2:
 		case NodeAttributeType.IVec3:
-		case NodeAttributeType.IVec4:
+		case NodeAttributeType.IVec4: {
+			const b = Buffer.alloc(typed.value.length * 4);
+			typed.value.forEach((n, i) => b.writeInt32LE(n | 0, i * 4));
+			return b;
+		}
 		case NodeAttributeType.Vec2:
 		case NodeAttributeType.Vec3:
 		case NodeAttributeType.Vec4: {
-			const parts = String(value).trim().split(/\s+/).map(Number);
-			const isInt = type >= NodeAttributeType.IVec2 && type <= NodeAttributeType.IVec4;
-			const comps = type === NodeAttributeType.IVec2 || type === NodeAttributeType.Vec2 ? 2 : type === NodeAttributeType.IVec3 || type === NodeAttributeType.Vec3 ? 3 : 4;
-			const elemSize = isInt ? 4 : 4;
-			const b = Buffer.alloc(comps * elemSize);
-			for (let i = 0; i < comps; i++) {
-				if (isInt) b.writeInt32LE(parts[i] || 0, i * 4);
-				else b.writeFloatLE(parts[i] || 0, i * 4);
+			const b = Buffer.alloc(typed.value.length * 4);
+			typed.value.forEach((n, i) => b.writeFloatLE(n, i * 4));
+			return b;
+		}
+		case NodeAttributeType.Mat2:
+		case NodeAttributeType.Mat3:
+		case NodeAttributeType.Mat3x4:
+		case NodeAttributeType.Mat4x3:
+		case NodeAttributeType.Mat4: {
+			// LSLib: spaltenweise (für jede Spalte alle Zeilen)
+			const mat = typed.value;
+			const rows = mat.length;
+			const columns = mat[0].length;
+			const b = Buffer.alloc(rows * columns * 4);
+			for (let col = 0; col < columns; col++) {
+				for (let row = 0; row < rows; row++) b.writeFloatLE(mat[row][col], (col * rows + row) * 4);
 			}
 			return b;
 		}
-		case NodeAttributeType.ULongLong:
+		case NodeAttributeType.ULongLong: {
+			const b = Buffer.alloc(8);
+			b.writeBigUInt64LE(BigInt.asUintN(64, typed.value), 0);
+			return b;
+		}
 		case NodeAttributeType.Long:
 		case NodeAttributeType.Int64: {
 			const b = Buffer.alloc(8);
-			try {
-				b.writeBigInt64LE(BigInt(value ?? 0), 0);
-			} catch {
-				b.writeBigInt64LE(0n, 0);
-			}
+			b.writeBigInt64LE(BigInt.asIntN(64, typed.value), 0);
 			return b;
 		}
 		case NodeAttributeType.ScratchBuffer: {
-			return Buffer.from(String(value ?? ""), "base64");
+			return Buffer.from(typed.value.buffer, typed.value.byteOffset, typed.value.byteLength);
 		}
 		default:
-			return Buffer.from(String(value ?? ""), "utf8");
+			return Buffer.from(String(typed.value ?? ""), "utf8");
 	}
 }
 
-function getAttributeLength(attr: LSFAttribute, isBG3: boolean = false): number {
-	return serializeAttributeValue(attr, isBG3).length;
+/** Block wie LSLib CompressionHelpers.Compress; chunked = LZ4-Frame statt LZ4-Block */
+function compressBlock(data: Buffer, flags: number, chunked: boolean): Buffer {
+	if (data.length === 0) return data;
+	if (chunked) return lz4.encode(data, { highCompression: (flags & 0xf0) !== CompressionFlags.FastCompress });
+	return compress(data, flags);
 }
 
-function compressBlock(data: Buffer): Buffer {
-	if (data.length === 0) return data;
-	const maxOut = lz4.encodeBound(data.length);
-	const out = Buffer.alloc(maxOut);
-	// encodeBlockHC = bessere Kompression (LZ4_HC), gleiches Block-Format (decodeBlock-kompatibel)
-	let written = -1;
-	if (typeof lz4.encodeBlockHC === "function") {
-		written = lz4.encodeBlockHC(data, out);
-	}
-	if (written <= 0) {
-		written = lz4.encodeBlock(data, out);
-	}
-	return written > 0 ? out.subarray(0, written) : data;
+export interface LsfCompression {
+	method: CompressionMethod;
+	/** Default: "default" (LZ4 HC 9, Zlib 6, Zstd 3) */
+	level?: CompressionLevel;
+	/**
+	 * Nur LZ4: Nodes, Attribute, Values und Keys als LZ4-Frame (wie BG3/LSLib ab LSF-Version 2),
+	 * die Strings bleiben ein LZ4-Block.
+	 */
+	chunked?: boolean;
 }
 
 export interface WriteLsfOptions {
-	/** 0 = V2 (12 B/node, 12 B/attr, kompakter), 1 = V3 (16 B). DOS2 nutzt 0. */
+	/** 0 = V2 (12 B/node, 12 B/attr, kompakter), 1 = V3 (16 B, ab LSF-Version 3). DOS2 nutzt 0. */
 	metadataFormat?: number;
+	/**
+	 * LSF-Formatversion 1–7 (LSLib LSFVersion), bestimmt Header (ab 5: 64-Bit-Engine-Version)
+	 * und Metadaten (ab 6: mit Keys-Block). Default: 6 für Engine-Version ≥ 4 (BG3), sonst 3.
+	 */
+	formatVersion?: LsfFormatVersion;
+	/** Blockkompression; Default: LZ4-Block, Stufe "default" (Flags 0x22). Bei "none" wird SizeOnDisk 0 geschrieben. */
+	compression?: LsfCompression;
 }
 
 export function writeLsf(root: LSFNode, outputPath: string, version?: LsfVersion, options?: WriteLsfOptions): void {
+	writeFileSync(outputPath, writeLsfToBuffer(root, version, options));
+}
+
+/** LSF als Buffer schreiben (für In-Memory-Packing). */
+export function writeLsfToBuffer(root: LSFNode, version?: LsfVersion, options?: WriteLsfOptions): Buffer {
 	const v = version ?? { major: 3, minor: 6, revision: 9, build: 0 };
 	const isBG3 = v.major >= 4;
-	const metadataFormat = options?.metadataFormat ?? (isBG3 ? 1 : 0);
-	const engineVersion = packEngineVersion(v);
+	const formatVersion = options?.formatVersion ?? (isBG3 ? LsfFormatVersion.V6 : LsfFormatVersion.V3);
+	if (!Number.isInteger(formatVersion) || formatVersion < LsfFormatVersion.V1 || formatVersion > LsfFormatVersion.V7) {
+		throw new Error(`Nicht unterstützte LSF-Version: ${formatVersion} (1–7)`);
+	}
+	const metadataFormat = options?.metadataFormat ?? (isBG3 && formatVersion >= LsfFormatVersion.V3 ? 1 : 0);
+	if (metadataFormat === 1 && formatVersion < LsfFormatVersion.V3) {
+		throw new Error(`metadataFormat 1 (erweiterte Nodes) erfordert LSF-Version ≥ 3, nicht ${formatVersion}`);
+	}
+	const compression = options?.compression ?? { method: CompressionMethod.LZ4 };
+	const chunked = compression.chunked === true;
+	if (chunked && compression.method !== CompressionMethod.LZ4) {
+		throw new Error(`Chunked-Kompression gibt es nur für LZ4, nicht für Methode ${compression.method}`);
+	}
+	if (chunked && formatVersion < LsfFormatVersion.V2) {
+		throw new Error(`Chunked-LZ4 erfordert LSF-Version ≥ 2, nicht ${formatVersion}`);
+	}
+	const compressionFlags = makeCompressionFlags(compression.method, compression.level);
+	const withKeys = formatVersion >= LsfFormatVersion.V6;
+	const regions = root.name === "save" && root.children.length > 0 ? root.children : [root];
 
 	const stringsInOrder: string[] = [];
-	if (root.name === "save" && root.children.length > 0) {
-		for (const region of root.children) collectStringsInOrder(region, stringsInOrder);
-	} else {
-		collectStringsInOrder(root, stringsInOrder);
-	}
+	for (const region of regions) collectStringsInOrder(region, stringsInOrder, withKeys);
 	const { buffer: stringBuf, indexMap } = buildStringTable(stringsInOrder);
 
-	const flatNodes: LSFNode[] = [];
-	if (root.name === "save" && root.children.length > 0) {
-		for (const region of root.children) {
-			flattenNodes(region, -1, flatNodes);
-		}
-	} else {
-		flattenNodes(root, -1, flatNodes);
-	}
+	const flatNodes: FlatNode[] = [];
+	for (const region of regions) flattenNodes(region, -1, flatNodes);
+	let attrCount = 0;
+	for (const { node } of flatNodes) attrCount += Object.keys(node.attributes).length;
 
-	const nodeEntries: { nameIndex: number; parentIndex: number; nextSiblingIndex: number; firstAttributeIndex: number }[] = [];
-	const flatAttrs: { nameIndex: number; type: NodeAttributeType; length: number; nodeIdx: number }[] = [];
+	// Einträge direkt in die Blöcke schreiben, jeder Wert wird genau einmal serialisiert
+	const nodeEntrySize = metadataFormat === 1 ? 16 : 12;
+	const attrEntrySize = metadataFormat === 1 ? 16 : 12;
+	const nodeBuf = Buffer.alloc(flatNodes.length * nodeEntrySize);
+	const attrBuf = Buffer.alloc(attrCount * attrEntrySize);
 	const valueChunks: Buffer[] = [];
 	let valueOffset = 0;
-	const attrIdxByNode: number[][] = [];
-
-	for (let i = 0; i < flatNodes.length; i++) {
-		attrIdxByNode.push([]);
-	}
-
 	let attrIdx = 0;
-	for (let nodeIdx = 0; nodeIdx < flatNodes.length; nodeIdx++) {
-		const node = flatNodes[nodeIdx];
-		const attrNames = Object.keys(node.attributes);
-		const firstAttrIdx = attrNames.length > 0 ? attrIdx : -1;
 
-		for (const name of attrNames) {
-			const attr = node.attributes[name];
-			const len = getAttributeLength(attr, isBG3);
-			valueChunks.push(serializeAttributeValue(attr, isBG3));
-			flatAttrs.push({
-				nameIndex: indexMap.get(name) ?? 0,
-				type: attr.type,
-				length: len,
-				nodeIdx
-			});
-			attrIdxByNode[nodeIdx].push(attrIdx);
-			attrIdx++;
+	for (let nodeIdx = 0; nodeIdx < flatNodes.length; nodeIdx++) {
+		const { node, parentIndex, nextSiblingIndex } = flatNodes[nodeIdx];
+		const attrs = Object.entries(node.attributes);
+		const firstAttrIdx = attrs.length > 0 ? attrIdx : -1;
+		const no = nodeIdx * nodeEntrySize;
+		nodeBuf.writeUInt32LE(indexMap.get(node.name) ?? 0, no);
+		if (metadataFormat === 1) {
+			nodeBuf.writeInt32LE(parentIndex, no + 4);
+			nodeBuf.writeInt32LE(nextSiblingIndex, no + 8);
+			nodeBuf.writeInt32LE(firstAttrIdx, no + 12);
+		} else {
+			nodeBuf.writeInt32LE(firstAttrIdx, no + 4);
+			nodeBuf.writeInt32LE(parentIndex, no + 8);
 		}
 
-		let parentIdx = -1;
-		for (let p = 0; p < nodeIdx; p++) {
-			if (flatNodes[p].children.includes(node)) {
-				parentIdx = p;
-				break;
-			}
-		}
-		let nextSiblingIdx = -1;
-		if (parentIdx >= 0) {
-			const siblings = flatNodes[parentIdx].children;
-			const pos = siblings.indexOf(node);
-			if (pos >= 0 && pos < siblings.length - 1) {
-				const nextNode = siblings[pos + 1];
-				nextSiblingIdx = flatNodes.indexOf(nextNode);
-				if (nextSiblingIdx < 0) nextSiblingIdx = -1;
+		for (let a = 0; a < attrs.length; a++, attrIdx++) {
+			const [name, attr] = attrs[a];
+			const value = serializeAttributeValue(attr, isBG3);
+			valueChunks.push(value);
+			const ao = attrIdx * attrEntrySize;
+			attrBuf.writeUInt32LE(indexMap.get(name) ?? 0, ao);
+			attrBuf.writeUInt32LE(((attr.type & 0x3f) | (value.length << 6)) >>> 0, ao + 4);
+			if (metadataFormat === 1) {
+				attrBuf.writeInt32LE(a < attrs.length - 1 ? attrIdx + 1 : -1, ao + 8);
+				attrBuf.writeUInt32LE(valueOffset, ao + 12);
+			} else {
+				attrBuf.writeInt32LE(nodeIdx, ao + 8);
 			}
+			valueOffset += value.length;
 		}
-
-		nodeEntries.push({
-			nameIndex: indexMap.get(node.name) ?? 0,
-			parentIndex: parentIdx,
-			nextSiblingIndex: nextSiblingIdx,
-			firstAttributeIndex: firstAttrIdx
-		});
 	}
 
-	const nodeEntrySize = metadataFormat === 1 ? 16 : 12;
-	const attrEntrySize = metadataFormat === 1 ? 16 : 12;
-	const nodeBuf = Buffer.alloc(flatNodes.length * nodeEntrySize);
-	const attrBuf = Buffer.alloc(flatAttrs.length * attrEntrySize);
+	const valuesBuf = Buffer.concat(valueChunks);
 
-	if (metadataFormat === 1) {
-		for (let i = 0; i < nodeEntries.length; i++) {
-			const n = nodeEntries[i];
-			const no = i * 16;
-			nodeBuf.writeUInt32LE(n.nameIndex, no);
-			nodeBuf.writeInt32LE(n.parentIndex, no + 4);
-			nodeBuf.writeInt32LE(n.nextSiblingIndex, no + 8);
-			nodeBuf.writeInt32LE(n.firstAttributeIndex, no + 12);
-		}
-		const nextAttrMap = new Map<number, number>();
-		for (let i = 0; i < flatAttrs.length; i++) {
-			const nodeAttrs = attrIdxByNode[flatAttrs[i].nodeIdx];
-			const pos = nodeAttrs.indexOf(i);
-			nextAttrMap.set(i, pos >= 0 && pos < nodeAttrs.length - 1 ? nodeAttrs[pos + 1] : -1);
-		}
-		valueOffset = 0;
-		for (let i = 0; i < flatAttrs.length; i++) {
-			const a = flatAttrs[i];
-			const ao = i * 16;
-			attrBuf.writeUInt32LE(a.nameIndex, ao);
-			attrBuf.writeUInt32LE((a.type & 0x3f) | (a.length << 6), ao + 4);
-			attrBuf.writeInt32LE(nextAttrMap.get(i) ?? -1, ao + 8);
-			attrBuf.writeUInt32LE(valueOffset, ao + 12);
-			valueOffset += a.length;
-		}
+	// Ab LSF v6: Keys-Block mit { NodeIndex, KeyName } je Node mit Key
+	const keyedNodes = withKeys ? flatNodes.map(({ node }, i) => ({ node, i })).filter(({ node }) => node.key) : [];
+	const keysBuf = Buffer.alloc(keyedNodes.length * 8);
+	keyedNodes.forEach(({ node, i }, k) => {
+		keysBuf.writeUInt32LE(i, k * 8);
+		keysBuf.writeUInt32LE(indexMap.get(node.key!) ?? 0, k * 8 + 4);
+	});
+
+	const stringCompressed = compressBlock(stringBuf, compressionFlags, false);
+	const nodeCompressed = compressBlock(nodeBuf, compressionFlags, chunked);
+	const attrCompressed = compressBlock(attrBuf, compressionFlags, chunked);
+	const valueCompressed = compressBlock(valuesBuf, compressionFlags, chunked);
+	const keysCompressed = compressBlock(keysBuf, compressionFlags, chunked);
+	// Unkomprimiert: SizeOnDisk 0, der Reader liest dann UncompressedSize Bytes
+	const sizeOnDisk = (block: Buffer) => (compression.method === CompressionMethod.None ? 0 : block.length);
+
+	// Ab v5: 64-Bit-Engine-Version (16 B Header), davor 32 Bit (12 B)
+	const header = Buffer.alloc(formatVersion >= LsfFormatVersion.V5 ? 16 : 12);
+	header.write("LSOF", 0);
+	header.writeUInt32LE(formatVersion, 4);
+	if (formatVersion >= LsfFormatVersion.V5) {
+		header.writeBigUInt64LE(packEngineVersionBG3(v), 8);
 	} else {
-		for (let i = 0; i < nodeEntries.length; i++) {
-			const n = nodeEntries[i];
-			const no = i * 12;
-			nodeBuf.writeUInt32LE(n.nameIndex, no);
-			nodeBuf.writeInt32LE(n.firstAttributeIndex, no + 4);
-			nodeBuf.writeInt32LE(n.parentIndex, no + 8);
-		}
-		valueOffset = 0;
-		for (let i = 0; i < flatAttrs.length; i++) {
-			const a = flatAttrs[i];
-			const ao = i * 12;
-			attrBuf.writeUInt32LE(a.nameIndex, ao);
-			attrBuf.writeUInt32LE((a.type & 0x3f) | (a.length << 6), ao + 4);
-			attrBuf.writeInt32LE(a.nodeIdx, ao + 8);
-			valueOffset += a.length;
-		}
+		header.writeUInt32LE(packEngineVersion(v) >>> 0, 8);
 	}
 
-	const valuesBuf = Buffer.concat(valueChunks);
-
-	const stringCompressed = compressBlock(stringBuf);
-	const nodeCompressed = compressBlock(nodeBuf);
-	const attrCompressed = compressBlock(attrBuf);
-	const valueCompressed = compressBlock(valuesBuf);
-
-	let output: Buffer;
-
-	if (isBG3) {
+	if (withKeys) {
+		// LSFMetadataV6: Strings, Keys, Nodes, Attributes, Values, CompressionFlags (u8), Unknown (3 B), HasSiblingData (u32)
 		const meta = Buffer.alloc(48);
 		meta.writeUInt32LE(stringBuf.length, 0);
-		meta.writeUInt32LE(stringCompressed.length, 4);
-		meta.writeUInt32LE(0, 8);
-		meta.writeUInt32LE(0, 12);
+		meta.writeUInt32LE(sizeOnDisk(stringCompressed), 4);
+		meta.writeUInt32LE(keysBuf.length, 8);
+		meta.writeUInt32LE(sizeOnDisk(keysCompressed), 12);
 		meta.writeUInt32LE(nodeBuf.length, 16);
-		meta.writeUInt32LE(nodeCompressed.length, 20);
+		meta.writeUInt32LE(sizeOnDisk(nodeCompressed), 20);
 		meta.writeUInt32LE(attrBuf.length, 24);
-		meta.writeUInt32LE(attrCompressed.length, 28);
+		meta.writeUInt32LE(sizeOnDisk(attrCompressed), 28);
 		meta.writeUInt32LE(valuesBuf.length, 32);
-		meta.writeUInt32LE(valueCompressed.length, 36);
-		meta.writeUInt8(34, 40);
-		meta.writeUInt32LE(1, 44);
-
-		const header = Buffer.alloc(16);
-		header.write("LSOF", 0);
-		header.writeUInt32LE(6, 4);
-		header.writeBigUInt64LE(packEngineVersionBG3(v), 8);
+		meta.writeUInt32LE(sizeOnDisk(valueCompressed), 36);
+		meta.writeUInt8(compressionFlags, 40);
+		meta.writeUInt32LE(metadataFormat, 44);
 
-		output = Buffer.concat([header, meta, stringCompressed, nodeCompressed, attrCompressed, valueCompressed]);
+		// Wie LSLib: Keys-Block nach den Values
+		return Buffer.concat([header, meta, stringCompressed, nodeCompressed, attrCompressed, valueCompressed, keysCompressed]);
 	} else {
+		// LSFMetadataV5: Strings, Nodes, Attributes, Values, CompressionFlags (u8), Unknown (3 B), HasSiblingData (u32)
 		const meta = Buffer.alloc(40);
 		meta.writeUInt32LE(stringBuf.length, 0);
-		meta.writeUInt32LE(stringCompressed.length, 4);
+		meta.writeUInt32LE(sizeOnDisk(stringCompressed), 4);
 		meta.writeUInt32LE(nodeBuf.length, 8);
-		meta.writeUInt32LE(nodeCompressed.length, 12);
+		meta.writeUInt32LE(sizeOnDisk(nodeCompressed), 12);
 		meta.writeUInt32LE(attrBuf.length, 16);
-		meta.writeUInt32LE(attrCompressed.length, 20);
+		meta.writeUInt32LE(sizeOnDisk(attrCompressed), 20);
 		meta.writeUInt32LE(valuesBuf.length, 24);
-		meta.writeUInt32LE(valueCompressed.length, 28);
-		meta.writeUInt32LE(34, 32);
-		meta.writeUInt8(0, 36);
-		meta.writeUInt16LE(0, 37);
-		meta.writeUInt8(metadataFormat, 39);
-
-		const header = Buffer.alloc(12);
-		header.write("LSOF", 0);
-		header.writeUInt32LE(3, 4);
-		header.writeUInt32LE(engineVersion, 8);
-
-		output = Buffer.concat([header, meta, stringCompressed, nodeCompressed, attrCompressed, valueCompressed]);
-	}
+		meta.writeUInt32LE(sizeOnDisk(valueCompressed), 28);
+		meta.writeUInt8(compressionFlags, 32);
+		meta.writeUInt32LE(metadataFormat, 36);
 
-	writeFileSync(outputPath, output);
-}
-
-/** LSF als Buffer schreiben (für In-Memory-Packing). */
-export function writeLsfToBuffer(root: LSFNode, version?: LsfVersion, options?: WriteLsfOptions): Buffer {
-	const tmp = join(tmpdir(), `lsf-${Date.now()}-${Math.random().toString(36).slice(2)}.lsf`);
-	writeLsf(root, tmp, version, options);
-	try {
-		return readFileSync(tmp);
-	} finally {
-		unlinkSync(tmp);
+		return Buffer.concat([header, meta, stringCompressed, nodeCompressed, attrCompressed, valueCompressed]);
 	}
 }
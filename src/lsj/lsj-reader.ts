@@ -0,0 +1,226 @@
+/**
+ * LSJ Reader – JSON wie LSLib (LSJResourceConverter) in denselben Baum wie LSFReader/parseLsx
+ *
+ * Eigener kleiner JSON-Parser statt JSON.parse: Node-Objekte können denselben Schlüssel für ein
+ * Attribut und eine Kindgruppe enthalten, und 64-Bit-Zahlen sollen ohne Rundung ankommen.
+ */
+
+import { readFileSync } from "node:fs";
+import { LSFAttribute, LSFNode, NodeAttributeType, TranslatedFSStringValue, createAttribute, parseAttributeTypeName } from "../lsf/types.js";
+import type { LsjVersion } from "./lsj-writer.js";
+
+/** Objekt mit allen Schlüsseln in Dokumentreihenfolge (auch doppelten) */
+interface JsonObject {
+	entries: [string, JsonValue][];
+}
+
+/** Ganzzahlen außerhalb von Number.MAX_SAFE_INTEGER bleiben als Dezimal-String erhalten */
+type JsonValue = null | boolean | number | string | JsonValue[] | JsonObject;
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+function parseJson(text: string): JsonValue {
+	let pos = 0;
+	const fail = (message: string): never => {
+		throw new Error(`Invalid LSJ: ${message} bei Position ${pos}`);
+	};
+	const skipWhitespace = () => {
+		while (pos < text.length && (text[pos] === " " || text[pos] === "\t" || text[pos] === "\n" || text[pos] === "\r")) pos++;
+	};
+	const expect = (c: string) => {
+		skipWhitespace();
+		if (text[pos] !== c) fail(`"${c}" erwartet, "${text[pos] ?? "Dateiende"}" gefunden`);
+		pos++;
+	};
+	const parseString = (): string => {
+		const start = pos;
+		pos++;
+		while (pos < text.length && text[pos] !== '"') pos += text[pos] === "\\" ? 2 : 1;
+		if (pos >= text.length) fail("String nicht abgeschlossen");
+		pos++;
+		return JSON.parse(text.slice(start, pos));
+	};
+	const parseValue = (depth: number): JsonValue => {
+		if (depth > 512) fail("Verschachtelung zu tief");
+		skipWhitespace();
+		const c = text[pos];
+		if (c === "{") {
+			pos++;
+			const entries: [string, JsonValue][] = [];
+			skipWhitespace();
+			if (text[pos] === "}") {
+				pos++;
+				return { entries };
+			}
+			for (;;) {
+				skipWhitespace();
+				if (text[pos] !== '"') fail("Schlüssel erwartet");
+				const key = parseString();
+				expect(":");
+				entries.push([key, parseValue(depth + 1)]);
+				skipWhitespace();
+				if (text[pos] === ",") pos++;
+				else if (text[pos] === "}") {
+					pos++;
+					return { entries };
+				} else fail('"," oder "}" erwartet');
+			}
+		}
+		if (c === "[") {
+			pos++;
+			const items: JsonValue[] = [];
+			skipWhitespace();
+			if (text[pos] === "]") {
+				pos++;
+				return items;
+			}
+			for (;;) {
+				items.push(parseValue(depth + 1));
+				skipWhitespace();
+				if (text[pos] === ",") pos++;
+				else if (text[pos] === "]") {
+					pos++;
+					return items;
+				} else fail('"," oder "]" erwartet');
+			}
+		}
+		if (c === '"') return parseString();
+		for (const [literal, value] of [
+			["true", true],
+			["false", false],
+			["null", null]
+		] as const) {
+			if (text.startsWith(literal, pos)) {
+				pos += literal.length;
+				return value;
+			}
+		}
+		NUMBER_PATTERN.lastIndex = pos;
+		const match = NUMBER_PATTERN.exec(text);
+		if (!match) return fail(`unerwartetes Zeichen "${c ?? "Dateiende"}"`);
+		pos += match[0].length;
+		const n = Number(match[0]);
+		return /^-?\d+$/.test(match[0]) && !Number.isSafeInteger(n) ? match[0] : n;
+	};
+	const value = parseValue(0);
+	skipWhitespace();
+	if (pos < text.length) fail("Daten nach dem Dokumentende");
+	return value;
+}
+
+/** JSON-Wert mit Objekten als Record (für Attribute und Header, wo Schlüssel eindeutig sind) */
+type JsonPlain = null | boolean | number | string | JsonPlain[] | JsonRecord;
+
+interface JsonRecord {
+	[key: string]: JsonPlain;
+}
+
+function isObject(value: JsonValue | undefined): value is JsonObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRecord(value: JsonPlain | undefined): value is JsonRecord {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Objekt als Record (bei doppelten Schlüsseln gewinnt der letzte), verschachtelt auch Arrays */
+function toRecord(obj: JsonObject): JsonRecord {
+	return Object.fromEntries(obj.entries.map(([k, v]) => [k, toPlain(v)]));
+}
+
+function toPlain(value: JsonValue): JsonPlain {
+	if (Array.isArray(value)) return value.map(toPlain);
+	if (isObject(value)) return toRecord(value);
+	return value;
+}
+
+/** "4.0.9.331" → { major, minor, revision, build } */
+function parseVersion(header: JsonRecord | undefined): LsjVersion {
+	const parts = String(header?.version ?? "")
+		.split(".")
+		.map((p) => parseInt(p, 10));
+	return {
+		major: Number.isFinite(parts[0]) ? parts[0] : 4,
+		minor: parts[1] || 0,
+		revision: parts[2] || 0,
+		build: parts[3] || 0
+	};
+}
+
+function parseTranslatedFSString(obj: JsonRecord, path: string): TranslatedFSStringValue {
+	const result: TranslatedFSStringValue = { value: String(obj.value ?? ""), handle: String(obj.handle ?? "") };
+	if (obj.arguments !== undefined) {
+		if (!Array.isArray(obj.arguments)) throw new Error(`Invalid LSJ: ${path}.arguments muss ein Array sein`);
+		const args = obj.arguments.map((arg, i) => {
+			if (!isRecord(arg)) {
+				throw new Error(`Invalid LSJ: ${path}.arguments[${i}] muss ein Objekt sein`);
+			}
+			return {
+				key: String(arg.key ?? ""),
+				value: String(arg.value ?? ""),
+				...(isRecord(arg.string) ? { string: parseTranslatedFSString(arg.string, `${path}.arguments[${i}].string`) } : {})
+			};
+		});
+		if (args.length > 0) result.arguments = args;
+	}
+	return result;
+}
+
+function parseAttribute(name: string, obj: JsonRecord, path: string): LSFAttribute {
+	const type = parseAttributeTypeName(String(obj.type));
+	if (type === undefined) throw new Error(`Invalid LSJ: ${path} hat unbekannten Typ "${obj.type}"`);
+	switch (type) {
+		case NodeAttributeType.TranslatedString:
+			return { name, type, value: { value: String(obj.value ?? ""), handle: String(obj.handle ?? "") } };
+		case NodeAttributeType.TranslatedFSString:
+			return { name, type, value: parseTranslatedFSString(obj, path) };
+		default:
+			// Große 64-Bit-Zahlen kommen als Dezimal-String vom Parser, Vektoren und Matrizen als Text
+			try {
+				return createAttribute(name, type, obj.value);
+			} catch (err) {
+				throw new Error(`Invalid LSJ: ${path}: ${(err as Error).message}`);
+			}
+	}
+}
+
+function parseNode(name: string, obj: JsonObject, path: string): LSFNode {
+	const node: LSFNode = { name, attributes: {}, children: [] };
+	for (const [key, value] of obj.entries) {
+		if (key === "_Key") {
+			node.key = String(value);
+		} else if (Array.isArray(value)) {
+			value.forEach((child, i) => {
+				if (!isObject(child)) throw new Error(`Invalid LSJ: ${path}.${key}[${i}] muss ein Objekt sein`);
+				node.children.push(parseNode(key, child, `${path}.${key}[${i}]`));
+			});
+		} else if (isObject(value) && value.entries.some(([k]) => k === "type")) {
+			node.attributes[key] = parseAttribute(key, toRecord(value), `${path}.${key}`);
+		} else {
+			throw new Error(`Invalid LSJ: ${path}.${key} ist weder Attribut ({ type, value }) noch Kinder-Array`);
+		}
+	}
+	return node;
+}
+
+/** LSJ-Datei oder -Text in denselben Baum wie LSFReader/parseLsx */
+export function parseLsj(pathOrJson: string): { root: LSFNode; version: LsjVersion } {
+	const json = pathOrJson.trimStart().startsWith("{") ? pathOrJson : readFileSync(pathOrJson, "utf8");
+	const doc = parseJson(json.replace(/^\uFEFF/, ""));
+	const save = isObject(doc) ? doc.entries.find(([k]) => k === "save")?.[1] : undefined;
+	if (!isObject(save)) throw new Error("Invalid LSJ: kein save-Objekt");
+	const regions = save.entries.find(([k]) => k === "regions")?.[1];
+	if (!isObject(regions)) throw new Error("Invalid LSJ: save.regions fehlt");
+	const header = save.entries.find(([k]) => k === "header")?.[1];
+
+	const version = parseVersion(isObject(header) ? toRecord(header) : undefined);
+	const regionNodes: LSFNode[] = [];
+	for (const [regionName, regionObj] of regions.entries) {
+		if (!isObject(regionObj)) throw new Error(`Invalid LSJ: Region ${regionName} muss ein Objekt sein`);
+		regionNodes.push(parseNode(regionName, regionObj, `regions.${regionName}`));
+	}
+	if (regionNodes.length === 0) throw new Error("Invalid LSJ: keine Region");
+
+	const root = regionNodes.length === 1 ? regionNodes[0] : { name: "save", attributes: {}, children: regionNodes };
+	return { root, version };
+}
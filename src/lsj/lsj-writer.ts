@@ -0,0 +1,133 @@
+/**
+ * LSJ Writer – LSFNode-Baum als JSON wie LSLib (LSJResourceConverter / NodeSerializer)
+ *
+ * { "save": { "header": { "time", "version" }, "regions": { "<Region>": <Node> } } }
+ * Node: "_Key" (optional), Attribute als { "type", "value" }, Kinder nach Namen gruppiert als Arrays.
+ * Typnamen wie LSLib ("guid", "fvec3", "FixedString", …). Wie bei LSLib geht die Reihenfolge
+ * verschieden benannter Geschwister verloren, gleichnamige behalten ihre Reihenfolge; heißen
+ * ein Attribut und Kinder gleich, steht der Schlüssel doppelt im Objekt.
+ */
+
+import { LSFAttribute, LSFNode, NodeAttributeType, TranslatedFSStringValue, attributeTypeName, createAttribute, toLegacyValue } from "../lsf/types.js";
+import { formatFloat } from "../lsx/lsx-writer.js";
+
+export interface LsjVersion {
+	major: number;
+	minor: number;
+	revision: number;
+	build: number;
+}
+
+export function convertLsfToLsj(root: LSFNode, version?: LsjVersion): string {
+	const v = version ?? { major: 4, minor: 0, revision: 0, build: 0 };
+	const header = formatObject(
+		[
+			["time", "0"],
+			["version", JSON.stringify(`${v.major}.${v.minor}.${v.revision}.${v.build}`)]
+		],
+		2
+	);
+	const regions = (root.name === "save" && root.children.length > 0 ? root.children : [root]).map((region): [string, string] => [region.name, serializeNode(region, 3)]);
+	const save = formatObject(
+		[
+			["header", header],
+			["regions", formatObject(regions, 2)]
+		],
+		1
+	);
+	return formatObject([["save", save]], 0);
+}
+
+/** JSON-Objekt aus bereits serialisierten Werten (Schlüssel dürfen doppelt vorkommen) */
+function formatObject(entries: [string, string][], indent: number): string {
+	if (entries.length === 0) return "{}";
+	const pad = "\t".repeat(indent + 1);
+	return `{\n${entries.map(([key, value]) => `${pad}${JSON.stringify(key)}: ${value}`).join(",\n")}\n${"\t".repeat(indent)}}`;
+}
+
+function serializeNode(node: LSFNode, indent: number): string {
+	const entries: [string, string][] = [];
+	if (node.key) entries.push(["_Key", JSON.stringify(node.key)]);
+	for (const [name, attr] of Object.entries(node.attributes)) {
+		entries.push([name, serializeAttribute(attr, indent + 1)]);
+	}
+	const groups = new Map<string, LSFNode[]>();
+	for (const child of node.children) {
+		const group = groups.get(child.name);
+		if (group) group.push(child);
+		else groups.set(child.name, [child]);
+	}
+	const pad = "\t".repeat(indent + 1);
+	for (const [name, children] of groups) {
+		const items = children.map((child) => `${pad}\t${serializeNode(child, indent + 2)}`).join(",\n");
+		entries.push([name, `[\n${items}\n${pad}]`]);
+	}
+	return formatObject(entries, indent);
+}
+
+function serializeTranslatedFSString(ts: TranslatedFSStringValue): Record<string, unknown> {
+	const obj: Record<string, unknown> = { value: ts.value ?? "", handle: ts.handle ?? "" };
+	if (ts.arguments && ts.arguments.length > 0) {
+		obj.arguments = ts.arguments.map((arg) => ({
+			key: arg.key,
+			...(arg.string ? { string: serializeTranslatedFSString(arg.string) } : {}),
+			value: arg.value
+		}));
+	}
+	return obj;
+}
+
+function serializeAttribute(attr: LSFAttribute, indent: number): string {
+	const { type, ...rest } = attributeFields(attr);
+	const entries: [string, string][] = [["type", JSON.stringify(type)]];
+	for (const [key, value] of Object.entries(rest)) {
+		entries.push([key, typeof value === "bigint" ? value.toString() : JSON.stringify(value, null, "\t").replace(/\n/g, "\n" + "\t".repeat(indent + 1))]);
+	}
+	return formatObject(entries, indent);
+}
+
+/** Felder eines Attribut-Objekts; 64-Bit-Werte als bigint, damit sie exakt als JSON-Zahl geschrieben werden */
+function attributeFields(attribute: LSFAttribute): Record<string, unknown> {
+	const attr = createAttribute(attribute.name, attribute.type, attribute.value);
+	const type = attributeTypeName(attr.type);
+	switch (attr.type) {
+		case NodeAttributeType.TranslatedString: {
+			const ts = attr.value;
+			return ts.value ? { type, value: ts.value, handle: ts.handle } : { type, handle: ts.handle };
+		}
+		case NodeAttributeType.TranslatedFSString:
+			return { type, ...serializeTranslatedFSString(attr.value) };
+		case NodeAttributeType.Byte:
+			// LSLib: uint8 unsigned 0–255
+			return { type, value: (attr.value >>> 0) & 0xff };
+		case NodeAttributeType.Float:
+			// NaN/±Infinity als String wie Json.NET (JSON kennt sie nicht, JSON.stringify machte null daraus)
+			return { type, value: Number.isFinite(attr.value) ? Number(formatFloat(attr.value)) : String(attr.value) };
+		case NodeAttributeType.Double:
+			return { type, value: Number.isFinite(attr.value) ? attr.value : String(attr.value) };
+		case NodeAttributeType.Vec2:
+		case NodeAttributeType.Vec3:
+		case NodeAttributeType.Vec4:
+			return { type, value: attr.value.map((n) => formatFloat(n)).join(" ") };
+		case NodeAttributeType.Mat2:
+		case NodeAttributeType.Mat3:
+		case NodeAttributeType.Mat3x4:
+		case NodeAttributeType.Mat4x3:
+		case NodeAttributeType.Mat4:
+			// Zeilenweise wie LSX
+			return {
+				type,
+				value: attr.value
+					.flat()
+					.map((n) => formatFloat(n))
+					.join(" ")
+			};
+		case NodeAttributeType.ULongLong:
+		case NodeAttributeType.Long:
+		case NodeAttributeType.Int64:
+			return { type, value: attr.value };
+		default:
+			// Zahlen und Bool direkt, IVec als "1 2 3", ScratchBuffer als Base64
+			return { type, value: toLegacyValue(attr) };
+	}
+}
@@ -0,0 +1,289 @@
+/**
+ * LsvArchive – Random-Access auf LSV/PAK-Packages
+ *
+ * Liest beim Öffnen nur Header/Trailer und File-List. Dateiinhalte werden erst bei
+ * read()/createReadStream() per positioniertem Lesen aus dem File-Handle geholt,
+ * sodass auch mehrere GB große BG3-Saves und Game-Paks nicht komplett in den Speicher müssen.
+ */
+
+import { closeSync, createReadStream, existsSync, fstatSync, openSync, readSync } from "node:fs";
+import { Readable, Transform } from "node:stream";
+import type { TransformCallback } from "node:stream";
+import { createInflate } from "node:zlib";
+import { assertNotDeleted, bufferSource, checkFileEntry, entryIssue, readPackageIndex, unpackSolid } from "./unpacker.js";
+import type { EntryIssue, PackageHeader, PackageSource } from "./unpacker.js";
+import { computePackageMd5, crc32, packageHashOrder } from "./hash.js";
+import { CompressionMethod, getCompressionMethod, getPartPath } from "./types.js";
+import type { PackagedFileInfo } from "./types.js";
+
+export interface PackageHashResult {
+	/** Md5 aus dem Header (hex) */
+	stored: string;
+	/** Über die Inhalte berechneter Md5 (hex) */
+	computed: string;
+	/** false, wenn das Md5-Feld nur Nullen enthält (z.B. ältere Packer) */
+	present: boolean;
+	match: boolean;
+}
+
+/** Chunks durchreichen und am Ende prüfen; Fehler von check() beenden den Stream */
+function observer(onChunk: (chunk: Buffer) => void, check: () => Error | undefined): Transform {
+	return new Transform({
+		transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+			onChunk(chunk);
+			callback(null, chunk);
+		},
+		flush(callback: TransformCallback) {
+			callback(check());
+		}
+	});
+}
+
+/**
+ * Eintrag direkt aus der Part-Datei streamen, mit denselben Prüfungen wie checkFileEntry:
+ * CRC32 und Länge über die Daten wie auf Disk, danach die unkomprimierte Länge.
+ */
+function checkedEntryStream(partPath: string, file: PackagedFileInfo, position: number, inflate: boolean): Readable {
+	const fail = (kind: EntryIssue["kind"], message: string) => new Error(entryIssue(file, kind, message).message);
+	let onDisk = 0;
+	let crc = 0;
+	const checkRaw = observer(
+		(chunk) => {
+			onDisk += chunk.length;
+			if (file.crc) crc = crc32(chunk, crc);
+		},
+		() => {
+			if (onDisk < file.sizeOnDisk) {
+				return fail("truncated", `expected ${file.sizeOnDisk} bytes, only ${onDisk} available in part ${file.archivePart}`);
+			}
+			if (file.crc && crc !== file.crc) {
+				return fail("corrupt", `CRC mismatch (expected 0x${file.crc.toString(16)}, got 0x${crc.toString(16)})`);
+			}
+			return undefined;
+		}
+	);
+	let length = 0;
+	const checkOut = observer(
+		(chunk) => {
+			length += chunk.length;
+		},
+		() => (length !== file.uncompressedSize ? fail("corrupt", `decompressed to ${length} bytes, expected ${file.uncompressedSize}`) : undefined)
+	);
+
+	const raw = createReadStream(partPath, { start: position, end: position + file.sizeOnDisk - 1 });
+	raw.on("error", (err: NodeJS.ErrnoException) => {
+		checkOut.destroy(err.code === "ENOENT" ? fail("truncated", `archive part ${file.archivePart} not found`) : err);
+	});
+	checkRaw.on("error", (err) => checkOut.destroy(err));
+	checkOut.on("close", () => raw.destroy());
+	if (!inflate) return raw.pipe(checkRaw).pipe(checkOut);
+	const zlib = createInflate();
+	zlib.on("error", (err) => checkOut.destroy(fail("corrupt", `decompression failed (${err.message})`)));
+	return raw.pipe(checkRaw).pipe(zlib).pipe(checkOut);
+}
+
+/** Positioniertes Lesen über einen File-Descriptor */
+function fdSource(fd: number): PackageSource {
+	return {
+		size: fstatSync(fd).size,
+		read(position: number, length: number): Buffer {
+			const buf = Buffer.alloc(length);
+			let done = 0;
+			while (done < length) {
+				const n = readSync(fd, buf, done, length - done, position + done);
+				if (n === 0) break;
+				done += n;
+			}
+			return done < length ? buf.subarray(0, done) : buf;
+		}
+	};
+}
+
+export class LsvArchive {
+	public readonly path: string;
+	public readonly header: PackageHeader;
+	private readonly files: PackagedFileInfo[];
+	private readonly byName = new Map<string, PackagedFileInfo>();
+	/** Index = archivePart; Part 0 ist das Haupt-Archiv, weitere Parts werden bei Bedarf geöffnet */
+	private readonly parts: (PackageSource | undefined)[] = [];
+	private readonly fds: number[] = [];
+	/** Offsets sind nach readPackageIndex absolut (v7–v10: DataOffset bereits addiert), daher 0 */
+	private readonly dataOffset = 0;
+	/** Solid-Package: Part 0 ist der entpackte LZ4-Frame im Speicher statt der Datei */
+	private readonly solid: boolean;
+
+	constructor(path: string) {
+		this.path = path;
+		const fd = openSync(path, "r");
+		this.fds.push(fd);
+		try {
+			const src = fdSource(fd);
+			this.parts.push(src);
+			const { header, files } = readPackageIndex(src);
+			const solid = unpackSolid(src, header, files);
+			this.header = header;
+			this.files = solid?.files ?? files;
+			this.solid = solid !== undefined;
+			if (solid) this.parts[0] = bufferSource(solid.data);
+		} catch (err) {
+			this.close();
+			throw err;
+		}
+		for (const file of this.files) this.byName.set(file.name, file);
+	}
+
+	/** Alle Einträge in Package-Reihenfolge (nur Metadaten) */
+	public entries(): PackagedFileInfo[] {
+		return [...this.files];
+	}
+
+	public has(name: string): boolean {
+		return this.byName.has(name);
+	}
+
+	public getEntry(name: string): PackagedFileInfo {
+		const file = this.byName.get(name);
+		if (!file) throw new Error(`Datei nicht im Package: ${name}`);
+		return file;
+	}
+
+	/** Rohdaten eines Eintrags wie auf Disk (ggf. komprimiert) */
+	public readRaw(name: string): Buffer {
+		const file = this.getEntry(name);
+		assertNotDeleted(file);
+		const { src, position } = this.locate(file);
+		const chunk = src.read(position, file.sizeOnDisk);
+		if (chunk.length < file.sizeOnDisk) {
+			throw new Error(`File ${file.name}: offset ${position} + size ${file.sizeOnDisk} exceeds part ${file.archivePart} length ${src.size}`);
+		}
+		return chunk;
+	}
+
+	/** Unkomprimierter Inhalt eines Eintrags (CRC-geprüft) */
+	public read(name: string): Buffer {
+		const { content, issue } = this.readChecked(this.getEntry(name));
+		if (issue) throw new Error(issue.message);
+		return content;
+	}
+
+	/** Alle Einträge lesen und beschädigte oder abgeschnittene melden (Löschmarker werden übersprungen) */
+	public check(): EntryIssue[] {
+		const issues: EntryIssue[] = [];
+		for (const file of this.files) {
+			if (file.deleted) continue;
+			const { issue } = this.readChecked(file);
+			if (issue) issues.push(issue);
+		}
+		return issues;
+	}
+
+	/**
+	 * Inhalt als Stream. Unkomprimierte und Zlib-Einträge werden direkt aus der Datei gestreamt
+	 * (CRC und Größen wie bei read() geprüft, Fehler erst am Ende des Streams),
+	 * LZ4/Zstd-Einträge (Block-Format) erst beim ersten Lesen dekomprimiert.
+	 */
+	public createReadStream(name: string): Readable {
+		const file = this.getEntry(name);
+		assertNotDeleted(file);
+		const method = getCompressionMethod(file.flags);
+		const streamable = file.flags === 0 || file.uncompressedSize === 0 || method === CompressionMethod.None || method === CompressionMethod.Zlib;
+		if (streamable && !this.solid && file.sizeOnDisk > 0) {
+			let position: number | undefined;
+			try {
+				position = this.locate(file).position;
+			} catch {
+				// Part-Datei fehlt → read() meldet truncated
+			}
+			if (position !== undefined) {
+				const inflate = method === CompressionMethod.Zlib && file.flags !== 0 && file.uncompressedSize > 0;
+				return checkedEntryStream(getPartPath(this.path, file.archivePart), file, position, inflate);
+			}
+		}
+		const load = () => this.read(name);
+		let started = false;
+		return new Readable({
+			read() {
+				if (started) return;
+				started = true;
+				try {
+					const content = load();
+					if (content.length > 0) this.push(content);
+					this.push(null);
+				} catch (err) {
+					this.destroy(err instanceof Error ? err : new Error(String(err)));
+				}
+			}
+		});
+	}
+
+	/** Header-Md5 gegen die Inhalte prüfen (liest jede Datei einzeln, nicht das ganze Package auf einmal) */
+	public verifyHash(): PackageHashResult {
+		const stored = this.header.md5 ?? Buffer.alloc(16);
+		const ordered = packageHashOrder(
+			this.files.filter((file) => !file.deleted),
+			this.header.version
+		);
+		const contents = (function* (archive: LsvArchive) {
+			for (const file of ordered) yield archive.read(file.name);
+		})(this);
+		const computed = computePackageMd5(contents);
+		return {
+			stored: stored.toString("hex"),
+			computed: computed.toString("hex"),
+			present: stored.some((b) => b !== 0),
+			match: stored.equals(computed)
+		};
+	}
+
+	public close(): void {
+		for (const fd of this.fds.splice(0)) closeSync(fd);
+		this.parts.length = 0;
+	}
+
+	private readChecked(file: PackagedFileInfo): ReturnType<typeof checkFileEntry> {
+		let chunk: Buffer | undefined;
+		try {
+			const { src, position } = this.locate(file);
+			chunk = src.read(position, file.sizeOnDisk);
+		} catch {
+			// Part-Datei fehlt → truncated
+		}
+		return checkFileEntry(file, chunk);
+	}
+
+	private locate(file: PackagedFileInfo): { src: PackageSource; position: number } {
+		const offset = Number(file.offsetInFile);
+		if (file.archivePart === 0) {
+			return { src: this.getPart(0), position: offset + this.dataOffset };
+		}
+		return { src: this.getPart(file.archivePart), position: offset };
+	}
+
+	private getPart(part: number): PackageSource {
+		let src = this.parts[part];
+		if (!src) {
+			if (part >= this.header.numParts || this.fds.length === 0) {
+				throw new Error(`Archive part ${part} not found`);
+			}
+			const partPath = getPartPath(this.path, part);
+			if (!existsSync(partPath)) {
+				throw new Error(`Archive part ${part} not found: ${partPath}`);
+			}
+			const fd = openSync(partPath, "r");
+			this.fds.push(fd);
+			src = fdSource(fd);
+			this.parts[part] = src;
+		}
+		return src;
+	}
+}
+
+/** Header-Md5 eines Packages prüfen */
+export function verifyPackageHash(path: string): PackageHashResult {
+	const archive = new LsvArchive(path);
+	try {
+		return archive.verifyHash();
+	} finally {
+		archive.close();
+	}
+}
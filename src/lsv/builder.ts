@@ -0,0 +1,541 @@
+/**
+ * PackageBuilder – baut LSV/PAK-Packages im Speicher
+ * Einträge kommen als Buffer oder LSF-Baum; Layout je LSPK-Version (Alignment, File-List,
+ * Header bzw. Trailer, Parts) entsteht erst bei toBuffer()/writeTo().
+ * packLsv/packLsvFromLsx und replaceEntries bauen darauf auf.
+ */
+
+import { writeFileSync } from "node:fs";
+import { compress, decompress } from "./compression.js";
+import { computePackageMd5, crc32, packageHashOrder } from "./hash.js";
+import { CompressionFlags, CompressionMethod, DELETION_MARKER, LSPK_SIGNATURE, PackageVersion, getCompressionMethod, getPartPath, makeCompressionFlags } from "./types.js";
+import type { CompressionLevel } from "./types.js";
+import { writeLsfToBuffer } from "../lsf/writer.js";
+import type { LsfVersion, WriteLsfOptions } from "../lsf/writer.js";
+import type { LSFNode } from "../lsf/types.js";
+import { WorkerPool } from "../workers/pool.js";
+import { assertPackableEntryName, globToRegExp } from "./names.js";
+
+const FILE_ENTRY_7_SIZE = 272;
+const FILE_ENTRY_10_SIZE = 280;
+const FILE_ENTRY_15_SIZE = 296; // LSLib: Name(256)+Offset(8)+SizeDisk(8)+Uncomp(8)+Part(4)+Flags(4)+Crc(4)+Unknown2(4)
+const FILE_ENTRY_18_SIZE = 272;
+const LSPK_HEADER_7_SIZE = 21;
+const LSPK_HEADER_10_SIZE = 24; // inkl. Signature
+const LSPK_HEADER_15_SIZE = 38; // inkl. Signature
+const LSPK_HEADER_16_SIZE = 40; // inkl. Signature
+const LSPK_TRAILER_13_SIZE = 40; // LSPKHeader13 + HeaderSize + Signature
+const COMPRESSION_LZ4 = 2;
+/** DOS2 v13: 64-Byte-Alignment, Padding 0xAD (LSLib) */
+const LSPK_ALIGNMENT = 64;
+const LSPK_PADDING_BYTE = 0xad;
+
+function writeU32(buf: Buffer, offset: number, val: number): void {
+	buf.writeUInt32LE(val, offset);
+}
+
+function writeU64(buf: Buffer, offset: number, val: number): void {
+	buf.writeBigUInt64LE(BigInt(val), offset);
+}
+
+function padNullTerminated(str: string, maxLen: number): Buffer {
+	const b = Buffer.alloc(maxLen, 0);
+	const enc = Buffer.from(str, "utf8");
+	enc.copy(b, 0, 0, Math.min(enc.length, maxLen - 1));
+	return b;
+}
+
+interface FileEntry {
+	name: string;
+	flags: number;
+	uncompressedSize: number;
+	archivePart?: number;
+	crc?: number;
+	/** Löschmarker statt Daten (nur v15+) */
+	deleted?: boolean;
+}
+
+/** DOS2 LSV: Zlib für alle Dateien (wie Divine/LSLib) */
+const DEFAULT_LSV_FLAGS = 33; // Zlib + DefaultCompress
+
+/** FileEntry7 (272 B) – DOS1 v7/v9: keine Flags, UncompressedSize 0 = unkomprimiert */
+function buildFileList7(files: FileEntry[], offsets: number[], sizesOnDisk: number[]): Buffer {
+	const numFiles = files.length;
+	const buf = Buffer.alloc(numFiles * FILE_ENTRY_7_SIZE);
+	for (let i = 0; i < numFiles; i++) {
+		const f = files[i];
+		const o = i * FILE_ENTRY_7_SIZE;
+		padNullTerminated(f.name, 256).copy(buf, o);
+		writeU32(buf, o + 256, offsets[i]);
+		writeU32(buf, o + 260, sizesOnDisk[i]);
+		writeU32(buf, o + 264, getCompressionMethod(f.flags) === CompressionMethod.None ? 0 : f.uncompressedSize);
+		writeU32(buf, o + 268, f.archivePart ?? 0);
+	}
+	return buf;
+}
+
+/** FileEntry10 (280 B) – DOS2 v10/v13 mit CRC32 */
+function buildFileList10(files: FileEntry[], offsets: number[], sizesOnDisk: number[], version: number): Buffer {
+	const numFiles = files.length;
+	const buf = Buffer.alloc(numFiles * FILE_ENTRY_10_SIZE);
+	for (let i = 0; i < numFiles; i++) {
+		const f = files[i];
+		const o = i * FILE_ENTRY_10_SIZE;
+		padNullTerminated(f.name, 256).copy(buf, o);
+		writeU32(buf, o + 256, offsets[i]);
+		writeU32(buf, o + 260, sizesOnDisk[i]);
+		writeU32(buf, o + 264, f.uncompressedSize || sizesOnDisk[i]);
+		writeU32(buf, o + 268, f.archivePart ?? 0);
+		writeU32(buf, o + 272, version === 13 ? f.flags & 0x0f : f.flags);
+		writeU32(buf, o + 276, f.crc ?? 0);
+	}
+	return buf;
+}
+
+/** FileEntry15 (296 B) – BG3 v15/v16 mit 64-Bit-Offsets und CRC32 */
+function buildFileList15(files: FileEntry[], offsets: number[], sizesOnDisk: number[], dataStartOffset: number): Buffer {
+	const numFiles = files.length;
+	const buf = Buffer.alloc(numFiles * FILE_ENTRY_15_SIZE);
+	for (let i = 0; i < numFiles; i++) {
+		const f = files[i];
+		const o = i * FILE_ENTRY_15_SIZE;
+		const part = f.archivePart ?? 0;
+		padNullTerminated(f.name, 256).copy(buf, o);
+		if (f.deleted) {
+			buf.writeBigUInt64LE(DELETION_MARKER, o + 256);
+		} else {
+			writeU64(buf, o + 256, (part === 0 ? dataStartOffset : 0) + offsets[i]);
+		}
+		writeU64(buf, o + 264, sizesOnDisk[i]);
+		writeU64(buf, o + 272, f.uncompressedSize || sizesOnDisk[i]);
+		writeU32(buf, o + 280, part);
+		writeU32(buf, o + 284, f.flags);
+		writeU32(buf, o + 288, f.crc ?? 0);
+		writeU32(buf, o + 292, 0);
+	}
+	return buf;
+}
+
+/** FileEntry18 (272 B) – BG3 v18, 48-Bit-Offset, keine CRC */
+function buildFileList18(files: FileEntry[], offsets: number[], sizesOnDisk: number[], dataStartOffset: number): Buffer {
+	const numFiles = files.length;
+	const buf = Buffer.alloc(numFiles * FILE_ENTRY_18_SIZE);
+	for (let i = 0; i < numFiles; i++) {
+		const f = files[i];
+		const o = i * FILE_ENTRY_18_SIZE;
+		const part = f.archivePart ?? 0;
+		// Nur Part 0 enthält den Header vor den Daten
+		const fileOffset = f.deleted ? Number(DELETION_MARKER) : (part === 0 ? dataStartOffset : 0) + offsets[i];
+		padNullTerminated(f.name, 256).copy(buf, o);
+		writeU32(buf, o + 256, fileOffset % 0x100000000);
+		buf.writeUInt16LE(Math.floor(fileOffset / 0x100000000), o + 260);
+		buf.writeUInt8(part, o + 262);
+		buf.writeUInt8(f.flags, o + 263);
+		writeU32(buf, o + 264, sizesOnDisk[i]);
+		writeU32(buf, o + 268, f.uncompressedSize || sizesOnDisk[i]);
+	}
+	return buf;
+}
+
+export interface PackLsvOptions {
+	/** LSPK-Version (LSLib PackageVersion): 7/9=DOS1, 10/13=DOS2, 15/16/18=BG3. Default 13. */
+	version?: number;
+	/**
+	 * Maximale Größe einer Part-Datei in Bytes. Wird sie überschritten, landen weitere
+	 * Dateien in Foo_1.lsv, Foo_2.lsv, … (LSLib Multi-Part). Default: kein Splitting.
+	 */
+	maxPartSize?: number;
+	/** Kompression für alle Dateien; überschreibt die Flags aus __manifest__.json */
+	compression?: PackCompression;
+	/**
+	 * Kompression je Glob-Muster über den Namen im Package (z.B. "*.png", "Levels/**"),
+	 * die erste passende Regel gewinnt und hat Vorrang vor `compression`.
+	 * Muster ohne "/" gelten für den Dateinamen in jedem Verzeichnis.
+	 */
+	compressionRules?: PackCompressionRule[];
+	/** Worker-Threads für Kompression und LSX→LSF in den *Async-Varianten (Default: Anzahl CPU-Kerne) */
+	jobs?: number;
+	/**
+	 * Ergebnis vor dem Schreiben mit __manifest__.json (v2) vergleichen: Version, Header-Flags,
+	 * Priority, Parts, Md5 und je Eintrag Reihenfolge, Kompression, Größen, CRC32 und Part.
+	 * Jede Abweichung ist ein Fehler, es wird dann nichts geschrieben.
+	 */
+	strict?: boolean;
+}
+
+export interface PackCompression {
+	method: CompressionMethod;
+	/** Default: "default" */
+	level?: CompressionLevel;
+}
+
+export interface PackCompressionRule extends PackCompression {
+	pattern: string;
+}
+
+/** Flags eines Eintrags: Regel > globale Kompression > Manifest */
+function resolveCompressionFlags(name: string, manifestFlags: number, options: PackLsvOptions | undefined): number {
+	const rule = options?.compressionRules?.find((r) => globToRegExp(r.pattern).test(name));
+	const spec = rule ?? options?.compression;
+	return spec ? makeCompressionFlags(spec.method, spec.level) : manifestFlags;
+}
+
+/** Eine zu packende Datei mit unkomprimiertem Inhalt (Flags bereits aufgelöst) */
+interface PackInput {
+	name: string;
+	flags: number;
+	content: Buffer;
+	/** Löschmarker ohne Daten (content leer) */
+	deleted?: boolean;
+	/** Bereits komprimierte Daten aus einem bestehenden Package, werden unverändert übernommen (content leer) */
+	stored?: { data: Buffer; uncompressedSize: number };
+	/** Vorab (z.B. im Worker-Pool) mit packedFlags komprimierter content */
+	compressed?: Buffer;
+	/** Fester Part (z.B. aus dem Manifest) statt Aufteilung nach maxPartSize */
+	part?: number;
+}
+
+/** Flags wie sie ins Package geschrieben werden */
+function packedFlags(input: PackInput, version: number): number {
+	// FileEntry7 kennt keine Flags: komprimierte Einträge sind dort immer Zlib (Stufe bleibt erhalten)
+	if (!input.stored && version <= PackageVersion.V9 && getCompressionMethod(input.flags) !== CompressionMethod.None) {
+		return CompressionFlags.MethodZlib | (input.flags & 0xf0);
+	}
+	return input.flags;
+}
+
+/** Unkomprimierter Inhalt für den Header-MD5; übernommene Einträge werden erst hier dekomprimiert */
+function inputContent(input: PackInput): Buffer {
+	if (!input.stored) return input.content;
+	const { data, uncompressedSize } = input.stored;
+	return input.flags === 0 || uncompressedSize === 0 ? data : decompress(data, uncompressedSize, input.flags);
+}
+
+/** Größe von Header + File-List vor den Daten in Part 0 (Header am Anfang) */
+function dataStartOffset(version: number, numFiles: number): number {
+	switch (version) {
+		case PackageVersion.V7:
+		case PackageVersion.V9:
+			return LSPK_HEADER_7_SIZE + numFiles * FILE_ENTRY_7_SIZE;
+		case PackageVersion.V10:
+			return LSPK_HEADER_10_SIZE + numFiles * FILE_ENTRY_10_SIZE;
+		case PackageVersion.V13:
+			return 0;
+		case PackageVersion.V15:
+			return LSPK_HEADER_15_SIZE;
+		case PackageVersion.V16:
+		case PackageVersion.V18:
+			return LSPK_HEADER_16_SIZE;
+		default:
+			throw new Error(`Nicht unterstützte LSPK-Version: ${version}`);
+	}
+}
+
+/**
+ * Package-Layout: Kompression, Alignment/Padding, Part-Aufteilung, File-List, Header bzw. Trailer.
+ * Liefert die Dateiinhalte je Part (Index 0 = Haupt-Datei).
+ *
+ * - v7/v9:   [LSPKHeader7][FileEntry7…][Daten]
+ * - v10:     [LSPK][LSPKHeader10][FileEntry10…][Daten]
+ * - v13:     [Daten][NumFiles][LZ4(FileEntry10…)][LSPKHeader13][HeaderSize][LSPK]
+ * - v15–v18: [LSPK][LSPKHeader15/16][Daten][NumFiles][CompressedSize][LZ4(FileEntry15/18…)]
+ */
+function layoutPackage(inputs: PackInput[], options: PackageBuilderOptions): Buffer[] {
+	const version = options.version ?? 13;
+	const headerAtStart = version !== PackageVersion.V13;
+	const compressedList = version >= PackageVersion.V13;
+	// Daten vor v15 auf 64 Byte ausgerichtet (relativ zum Datenbereich)
+	const useAlignment = version <= PackageVersion.V13;
+	const maxPartSize = options.maxPartSize ?? Infinity;
+	if (maxPartSize <= 0) {
+		throw new Error(`Ungültige maxPartSize: ${maxPartSize}`);
+	}
+	if (version === PackageVersion.V15 && maxPartSize !== Infinity) {
+		throw new Error("LSPK v15 unterstützt keine Multi-Part-Packages");
+	}
+
+	if (version < PackageVersion.V15 && inputs.some((input) => input.deleted)) {
+		throw new Error(`Löschmarker benötigen LSPK v15 oder neuer (48-Bit-Offsets), gewählt: v${version}`);
+	}
+
+	const dataStart = dataStartOffset(version, inputs.length);
+	const filesToPack: FileEntry[] = [];
+	const offsets: number[] = [];
+	const sizesOnDisk: number[] = [];
+	const partChunks: Buffer[][] = [[]];
+	let part = 0;
+	// Part 0 beginnt hinter Header (und bei v7–v10 File-List)
+	let partBase = dataStart;
+	let offset = 0;
+	// v13: NumFiles, LZ4-File-List (obere Schranke wie LZ4_compressBound) und Trailer folgen in Part 0 auf die Daten
+	const listSize = inputs.length * FILE_ENTRY_10_SIZE;
+	const trailerReserve = version === PackageVersion.V13 ? 4 + listSize + Math.floor(listSize / 255) + 16 + LSPK_TRAILER_13_SIZE : 0;
+
+	for (const input of inputs) {
+		if (input.deleted) {
+			filesToPack.push({ name: input.name, flags: 0, uncompressedSize: 0, archivePart: 0, crc: 0, deleted: true });
+			offsets.push(0);
+			sizesOnDisk.push(0);
+			continue;
+		}
+		const flags = packedFlags(input, version);
+		const compressed = input.stored?.data ?? input.compressed ?? (flags === 0 ? input.content : compress(input.content, flags));
+		if (input.part !== undefined && input.part < part) {
+			throw new Error(`${input.name}: Part ${input.part} nach Part ${part}, Parts müssen aufsteigend belegt werden`);
+		}
+		while (input.part !== undefined ? input.part > part : offset > 0 && partBase + offset + compressed.length + (part === 0 ? trailerReserve : 0) > maxPartSize) {
+			part++;
+			partChunks.push([]);
+			partBase = 0;
+			offset = 0;
+		}
+		const entry: FileEntry = {
+			name: input.name,
+			flags,
+			uncompressedSize: input.stored ? input.stored.uncompressedSize : input.content.length,
+			archivePart: part
+		};
+		if (version >= 10 && version <= 16) entry.crc = crc32(compressed);
+		filesToPack.push(entry);
+		offsets.push(offset);
+		sizesOnDisk.push(compressed.length);
+		const chunks = partChunks[part];
+		if (useAlignment) {
+			const aligned = Math.ceil((offset + compressed.length) / LSPK_ALIGNMENT) * LSPK_ALIGNMENT;
+			const padding = aligned - offset - compressed.length;
+			chunks.push(compressed);
+			if (padding > 0) {
+				chunks.push(Buffer.alloc(padding, LSPK_PADDING_BYTE));
+			}
+			offset = aligned;
+		} else {
+			offset += compressed.length;
+			chunks.push(compressed);
+		}
+	}
+
+	const numParts = partChunks.length;
+	if (version === PackageVersion.V15 && numParts > 1) {
+		throw new Error("LSPK v15 unterstützt keine Multi-Part-Packages");
+	}
+	if (version >= PackageVersion.V18 && numParts > 0xff) {
+		throw new Error(`Zu viele Parts für FileEntry18: ${numParts}`);
+	}
+	const dataBlock = Buffer.concat(partChunks[0]);
+	// Md5 steht erst ab v13 im Header
+	const hashed = inputs.filter((input) => !input.deleted);
+	const md5 = version >= PackageVersion.V13 ? computePackageMd5(packageHashOrder(hashed, version).map(inputContent)) : Buffer.alloc(16);
+
+	let fileList: Buffer;
+	if (version <= PackageVersion.V9) {
+		fileList = buildFileList7(filesToPack, offsets, sizesOnDisk);
+	} else if (version <= PackageVersion.V13) {
+		fileList = buildFileList10(filesToPack, offsets, sizesOnDisk, version);
+	} else if (version <= PackageVersion.V16) {
+		fileList = buildFileList15(filesToPack, offsets, sizesOnDisk, dataStart);
+	} else {
+		fileList = buildFileList18(filesToPack, offsets, sizesOnDisk, dataStart);
+	}
+
+	const numFilesBuf = Buffer.alloc(4);
+	writeU32(numFilesBuf, 0, filesToPack.length);
+
+	let fileListRaw = fileList;
+	if (compressedList) {
+		const compressedFileList = compress(fileList, COMPRESSION_LZ4);
+		if (compressedFileList.length > fileList.length) {
+			throw new Error(`File list compression fehlgesch: komprimiert ${compressedFileList.length} > unkomprimiert ${fileList.length}`);
+		}
+		if (headerAtStart) {
+			const compressedSizeBuf = Buffer.alloc(4);
+			writeU32(compressedSizeBuf, 0, compressedFileList.length);
+			fileListRaw = Buffer.concat([numFilesBuf, compressedSizeBuf, compressedFileList]);
+		} else {
+			fileListRaw = Buffer.concat([numFilesBuf, compressedFileList]);
+		}
+	}
+
+	let output: Buffer;
+
+	if (version <= PackageVersion.V9) {
+		// LSPKHeader7: Version, DataOffset, NumParts, FileListSize, LittleEndian, NumFiles (Pack=1)
+		const header = Buffer.alloc(LSPK_HEADER_7_SIZE);
+		writeU32(header, 0, version);
+		writeU32(header, 4, dataStart);
+		writeU32(header, 8, numParts);
+		writeU32(header, 12, fileListRaw.length);
+		header.writeUInt8(1, 16);
+		writeU32(header, 17, filesToPack.length);
+
+		output = Buffer.concat([header, fileListRaw, dataBlock]);
+	} else if (version === PackageVersion.V10) {
+		// LSPKHeader10: Version, DataOffset, FileListSize, NumParts, Flags, Priority, NumFiles
+		const header = Buffer.alloc(LSPK_HEADER_10_SIZE);
+		writeU32(header, 0, LSPK_SIGNATURE);
+		writeU32(header, 4, version);
+		writeU32(header, 8, dataStart);
+		writeU32(header, 12, fileListRaw.length);
+		header.writeUInt16LE(numParts, 16);
+		header.writeUInt8(options.flags ?? 0, 18);
+		header.writeUInt8(options.priority ?? 0, 19);
+		writeU32(header, 20, filesToPack.length);
+
+		output = Buffer.concat([header, fileListRaw, dataBlock]);
+	} else if (headerAtStart) {
+		// LSPKHeader15/16: Version, FileListOffset(8), FileListSize, Flags, Priority, Md5[16], NumParts (nur v16+)
+		const header = Buffer.alloc(dataStart);
+		writeU32(header, 0, LSPK_SIGNATURE);
+		writeU32(header, 4, version);
+		writeU64(header, 8, dataStart + dataBlock.length);
+		writeU32(header, 16, fileListRaw.length);
+		header.writeUInt8(options.flags ?? 0, 20);
+		header.writeUInt8(options.priority ?? 0, 21);
+		md5.copy(header, 22);
+		if (version >= PackageVersion.V16) header.writeUInt16LE(numParts, 38);
+
+		output = Buffer.concat([header, dataBlock, fileListRaw]);
+	} else {
+		// DOS2 v13: Trailer am Ende (LSPKHeader13: Version, FileListOffset, FileListSize, NumParts, Flags, Priority, Md5[16])
+		const header = Buffer.alloc(32);
+		writeU32(header, 0, version);
+		writeU32(header, 4, dataBlock.length);
+		writeU32(header, 8, fileListRaw.length);
+		header.writeUInt16LE(numParts, 12); // NumParts
+		header.writeUInt8(options.flags ?? 0, 14); // Flags
+		header.writeUInt8(options.priority ?? 0, 15); // Priority
+		md5.copy(header, 16); // Md5
+
+		const trailerSize = LSPK_TRAILER_13_SIZE;
+		const trailer = Buffer.alloc(trailerSize);
+		header.copy(trailer, 0, 0, 32);
+		writeU32(trailer, 32, trailerSize);
+		writeU32(trailer, 36, LSPK_SIGNATURE);
+
+		output = Buffer.concat([dataBlock, fileListRaw, trailer]);
+	}
+
+	return [output, ...partChunks.slice(1).map((chunks) => Buffer.concat(chunks))];
+}
+
+export interface PackageBuilderOptions extends PackLsvOptions {
+	/** Header-Flags (v10+) */
+	flags?: number;
+	/** Header-Priority (v10+) */
+	priority?: number;
+}
+
+export interface AddEntryOptions {
+	/** Kompressions-Flags des Eintrags (Default: Zlib + DefaultCompress); Regeln des Builders haben Vorrang */
+	flags?: number;
+	/** Kompression nur für diesen Eintrag, hat Vorrang vor allen anderen Einstellungen */
+	compression?: PackCompression;
+	/** Engine-Version für LSF-Bäume (Default wie writeLsfToBuffer: DOS2) */
+	lsfVersion?: LsfVersion;
+	lsfOptions?: WriteLsfOptions;
+	/** Eintrag in diesen Part legen (hat Vorrang vor maxPartSize) */
+	part?: number;
+}
+
+function writeParts(path: string, parts: Buffer[]): number {
+	parts.forEach((part, i) => writeFileSync(getPartPath(path, i), part));
+	return parts.length;
+}
+
+/**
+ * Package im Speicher zusammenstellen, ohne temporäre Verzeichnisse.
+ *
+ * @example
+ * const builder = new PackageBuilder({ version: PackageVersion.V18 });
+ * builder.add("meta.lsf", root, { lsfVersion: { major: 4, minor: 0, revision: 9, build: 0 } });
+ * builder.add("Save.png", png, { compression: { method: CompressionMethod.None } });
+ * builder.writeTo("Save.lsv");
+ */
+export class PackageBuilder {
+	private readonly options: PackageBuilderOptions;
+	private readonly inputs: PackInput[] = [];
+	private readonly names = new Set<string>();
+
+	constructor(options?: PackageBuilderOptions) {
+		this.options = { version: PackageVersion.V13, ...options };
+	}
+
+	/** Eintrag hinzufügen; LSF-Bäume werden sofort zu LSF serialisiert */
+	public add(name: string, data: Buffer | LSFNode, options?: AddEntryOptions): this {
+		const content = Buffer.isBuffer(data) ? data : writeLsfToBuffer(data, options?.lsfVersion, options?.lsfOptions);
+		const flags = options?.compression
+			? makeCompressionFlags(options.compression.method, options.compression.level)
+			: resolveCompressionFlags(name, options?.flags ?? DEFAULT_LSV_FLAGS, this.options);
+		return this.push({ name, flags, content, part: options?.part });
+	}
+
+	/** Bereits komprimierte Daten (z.B. aus LsvArchive.readRaw) unverändert übernehmen, optional in einen festen Part */
+	public addRaw(name: string, data: Buffer, flags: number, uncompressedSize: number, part?: number): this {
+		return this.push({ name, flags, content: Buffer.alloc(0), stored: { data, uncompressedSize }, part });
+	}
+
+	/** Löschmarker ohne Daten (nur LSPK v15+) */
+	public addDeleted(name: string): this {
+		return this.push({ name, flags: 0, content: Buffer.alloc(0), deleted: true });
+	}
+
+	public has(name: string): boolean {
+		return this.names.has(name);
+	}
+
+	/** Anzahl der Einträge */
+	public get size(): number {
+		return this.inputs.length;
+	}
+
+	/** Inhalte aller Part-Dateien (Index 0 = Haupt-Datei, weitere nur mit maxPartSize) */
+	public toBuffers(): Buffer[] {
+		return layoutPackage(this.inputs, this.options);
+	}
+
+	/** Package als einzelner Buffer; schlägt fehl, wenn es auf mehrere Parts verteilt würde */
+	public toBuffer(): Buffer {
+		const parts = this.toBuffers();
+		if (parts.length > 1) {
+			throw new Error(`Package besteht aus ${parts.length} Parts, toBuffers() oder writeTo() verwenden`);
+		}
+		return parts[0];
+	}
+
+	/** Schreibt Foo.lsv und ggf. Foo_1.lsv, …; gibt die Anzahl der Parts zurück */
+	public writeTo(path: string): number {
+		return writeParts(path, this.toBuffers());
+	}
+
+	/** Wie toBuffers, komprimiert die Einträge aber parallel im Worker-Pool (options.jobs bzw. übergebener Pool) */
+	public async toBuffersAsync(pool?: WorkerPool): Promise<Buffer[]> {
+		const ownPool = pool ?? new WorkerPool(this.options.jobs);
+		try {
+			const version = this.options.version!;
+			const inputs = await Promise.all(
+				this.inputs.map(async (input) => {
+					const flags = packedFlags(input, version);
+					if (input.stored || input.deleted || flags === 0) return input;
+					return { ...input, compressed: await ownPool.run({ type: "compress", data: input.content, flags }) };
+				})
+			);
+			return layoutPackage(inputs, this.options);
+		} finally {
+			if (!pool) await ownPool.close();
+		}
+	}
+
+	public async writeToAsync(path: string, pool?: WorkerPool): Promise<number> {
+		return writeParts(path, await this.toBuffersAsync(pool));
+	}
+
+	/** Name prüfen (sicher, max. 255 Bytes, nicht doppelt) und Eintrag anhängen */
+	private push(input: PackInput): this {
+		assertPackableEntryName(input.name);
+		if (this.names.has(input.name)) {
+			throw new Error(`Eintrag doppelt im Package: ${input.name}`);
+		}
+		this.names.add(input.name);
+		this.inputs.push(input);
+		return this;
+	}
+}
@@ -5,7 +5,7 @@
 
 import { inflateSync, deflateSync } from "node:zlib";
 import { decompress as decompressZstd } from "fzstd";
-import { getCompressionMethod } from "./types.js";
+import { CompressionFlags, getCompressionMethod } from "./types.js";
 import { createRequire } from "node:module";
 const require = createRequire(import.meta.url);
 const lz4 = require("lz4");
@@ -20,6 +20,11 @@ export function decompressLZ4(compressed: Buffer, decompressedSize: number): Buf
 	return output.subarray(0, result);
 }
 
+/** LZ4-Frame (mit Frame-Header, z.B. Solid-Packages) */
+export function decompressLZ4Frame(compressed: Buffer): Buffer {
+	return lz4.decode(compressed);
+}
+
 export function decompressZlib(compressed: Buffer): Buffer {
 	return inflateSync(compressed);
 }
@@ -45,31 +50,45 @@ export function decompress(compressed: Buffer, decompressedSize: number, flags:
 	}
 }
 
-export function compressLZ4(data: Buffer): Buffer {
+/** LZ4 Block; mit hcLevel (1–12) LZ4 HC statt des schnellen Encoders */
+export function compressLZ4(data: Buffer, hcLevel?: number): Buffer {
 	const maxOut = lz4.encodeBound(data.length);
 	const out = Buffer.alloc(maxOut);
-	const written = lz4.encodeBlock(data, out);
+	const written = hcLevel === undefined ? lz4.encodeBlock(data, out) : lz4.encodeBlockHC(data, out, hcLevel);
 	if (written < 0) throw new Error(`LZ4 compression failed: ${written}`);
 	return out.subarray(0, written);
 }
 
-export function compressZlib(data: Buffer): Buffer {
-	return deflateSync(data, { level: 9 });
+export function compressZlib(data: Buffer, level = 9): Buffer {
+	return deflateSync(data, { level });
 }
 
+export function compressZstd(data: Buffer, level?: number): Buffer {
+	const out = zstdNapi.compress(data, level === undefined ? {} : { compressionLevel: level });
+	return Buffer.isBuffer(out) ? out : Buffer.from(out);
+}
+
+/**
+ * Codec-Einstellungen je Stufe (wie LSLib CompressionHelpers):
+ * Zlib 1/6/9, LZ4 schneller Block-Encoder / HC 9 / HC 12, Zstd 1/3/19.
+ * Ohne Level-Bits (z.B. v13-File-Lists, die nur die Methode speichern) bleibt es bei
+ * Zlib 9, schnellem LZ4 und dem Zstd-Default – so bleiben DOS2-Saves byte-identisch.
+ */
 export function compress(data: Buffer, flags: number): Buffer {
 	const method = getCompressionMethod(flags);
+	const level = flags & 0xf0;
 	switch (method) {
 		case 0:
 			return data;
 		case 1:
-			return compressZlib(data);
+			return compressZlib(data, level === CompressionFlags.FastCompress ? 1 : level === CompressionFlags.DefaultCompress ? 6 : 9);
 		case 2:
-			return compressLZ4(data);
-		case 3: {
-			const out = zstdNapi.compress(data);
-			return Buffer.isBuffer(out) ? out : Buffer.from(out);
-		}
+			return compressLZ4(data, level === CompressionFlags.DefaultCompress ? 9 : level === CompressionFlags.MaxCompress ? 12 : undefined);
+		case 3:
+			return compressZstd(
+				data,
+				level === CompressionFlags.FastCompress ? 1 : level === CompressionFlags.DefaultCompress ? 3 : level === CompressionFlags.MaxCompress ? 19 : undefined
+			);
 		default:
 			throw new Error(`Unknown compression method: ${method}`);
 	}
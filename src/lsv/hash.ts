@@ -0,0 +1,47 @@
+/**
+ * Prüfsummen für LSPK-Packages (LSLib-kompatibel)
+ * - CRC32 pro Eintrag (v10–v16) über die Daten wie auf Disk
+ * - MD5 im Header über die unkomprimierten Inhalte aller Dateien
+ */
+
+import { createHash } from "node:crypto";
+
+let crcTable: Uint32Array | undefined;
+
+/** CRC32 (IEEE) für LSLib v10–v16 Kompatibilität; mit `previous` fortlaufend über mehrere Chunks */
+export function crc32(buf: Buffer, previous = 0): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let i = 0; i < 256; i++) {
+			let c = i;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[i] = c >>> 0;
+		}
+	}
+	let crc = (previous ^ 0xffffffff) >>> 0;
+	for (let i = 0; i < buf.length; i++) {
+		crc = crcTable[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Reihenfolge der Dateien für den Header-MD5 (LSLib PackageWriter.ComputeArchiveHash):
+ * vor v15 ordinal nach Pfad sortiert, ab v15 in Package-Reihenfolge.
+ */
+export function packageHashOrder<T extends { name: string }>(files: T[], version: number): T[] {
+	if (version >= 15) return [...files];
+	return [...files].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+/**
+ * LSLib-Header-MD5: MD5 über die unkomprimierten Inhalte (Reihenfolge siehe packageHashOrder),
+ * anschließend wird jedes Hash-Byte um 1 erhöht.
+ */
+export function computePackageMd5(contents: Iterable<Buffer>): Buffer {
+	const md5 = createHash("md5");
+	for (const content of contents) md5.update(content);
+	const hash = md5.digest();
+	for (let i = 0; i < hash.length; i++) hash[i] = (hash[i] + 1) & 0xff;
+	return hash;
+}
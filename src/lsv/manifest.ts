@@ -0,0 +1,277 @@
+/**
+ * __manifest__.json – Beschreibung eines entpackten Packages für den Pack-Roundtrip
+ *
+ * Version 2 hält alles fest, was nicht aus den Dateien selbst hervorgeht: LSPK-Version,
+ * Header-Flags, Priority, Parts und Md5 sowie je Eintrag Reihenfolge, Kompression (Methode
+ * und Stufe), Größen, CRC32, Part und Löschmarker. Manifeste ohne `manifestVersion` (v1:
+ * nur Reihenfolge und Flags) werden weiterhin gelesen. Ein fehlerhaftes Manifest ist immer
+ * ein Fehler – es wird nie stillschweigend auf einen Verzeichnis-Scan ausgewichen.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { compress } from "./compression.js";
+import { crc32 } from "./hash.js";
+import { CompressionFlags, CompressionMethod, PackageFlags, PackageVersion, getCompressionMethod } from "./types.js";
+import type { CompressionLevel, PackagedFileInfo } from "./types.js";
+
+export const MANIFEST_NAME = "__manifest__.json";
+export const MANIFEST_VERSION = 2;
+
+/** DOS2 LSV: Zlib für alle Dateien (wie Divine/LSLib) */
+const DEFAULT_LSV_FLAGS = 33; // Zlib + DefaultCompress
+
+const METHOD_NAMES: Record<string, CompressionMethod> = {
+	none: CompressionMethod.None,
+	zlib: CompressionMethod.Zlib,
+	lz4: CompressionMethod.LZ4,
+	zstd: CompressionMethod.Zstd
+};
+
+const LEVEL_FLAGS: Record<CompressionLevel, number> = {
+	fast: CompressionFlags.FastCompress,
+	default: CompressionFlags.DefaultCompress,
+	max: CompressionFlags.MaxCompress
+};
+
+export type ManifestMethod = "none" | "zlib" | "lz4" | "zstd";
+
+export interface ManifestEntry {
+	/** Name im Package */
+	name: string;
+	/** Löschmarker ohne Daten; alle weiteren Felder fehlen dann */
+	deleted?: boolean;
+	method?: ManifestMethod;
+	/** Fehlt, wenn die Flags keine Stufe enthalten (z.B. DOS2 v13: Legacy-Kompression) */
+	level?: CompressionLevel;
+	/** Unkomprimierte Größe (fehlt bei Manifest v1) */
+	size?: number;
+	/** Größe im Package (fehlt bei Manifest v1) */
+	sizeOnDisk?: number;
+	/** CRC32 wie im Package, 0 = keine Prüfsumme (fehlt bei Manifest v1) */
+	crc?: number;
+	/** Part-Datei (fehlt bei Manifest v1) */
+	part?: number;
+}
+
+export interface PackageManifest {
+	/** Format des Manifests: 1 (Legacy) oder 2 */
+	manifestVersion: number;
+	/** LSPK-Version */
+	version: number;
+	/** Header-Flags (v10+) */
+	flags?: number;
+	/** Header-Priority (v10+) */
+	priority?: number;
+	numParts?: number;
+	/** Header-Md5 (hex, v13+); fehlt, wenn nicht alle Einträge entpackt wurden */
+	md5?: string;
+	/** Alle Einträge in Package-Reihenfolge, inkl. Löschmarker */
+	files: ManifestEntry[];
+}
+
+/** Kompressions-Flags eines Eintrags aus Methode und Stufe */
+export function manifestEntryFlags(entry: ManifestEntry): number {
+	if (entry.method === undefined) return DEFAULT_LSV_FLAGS;
+	return METHOD_NAMES[entry.method] | (entry.level ? LEVEL_FLAGS[entry.level] : 0);
+}
+
+function methodName(flags: number): ManifestMethod {
+	const method = getCompressionMethod(flags);
+	const name = Object.keys(METHOD_NAMES).find((key) => METHOD_NAMES[key] === method);
+	if (!name) throw new Error(`Unbekannte Kompressionsmethode in Flags 0x${flags.toString(16)}`);
+	return name as ManifestMethod;
+}
+
+function levelName(flags: number): CompressionLevel | undefined {
+	const bits = flags & 0xf0;
+	if (bits === 0) return undefined;
+	const level = (Object.keys(LEVEL_FLAGS) as CompressionLevel[]).find((key) => LEVEL_FLAGS[key] === bits);
+	if (!level) throw new Error(`Unbekannte Kompressionsstufe in Flags 0x${flags.toString(16)}`);
+	return level;
+}
+
+/**
+ * DOS2 v13 speichert in der File-List nur die Methode (flags & 0x0f), nicht die Stufe.
+ * Die Stufe wird ermittelt, indem der Inhalt erneut komprimiert und mit Größe und CRC32
+ * auf Disk verglichen wird (zuerst ohne Stufe, wie LSLib/DOS2). Passt keine, bleiben die Flags.
+ * Nur auf Anfrage (UnpackOptions.detectLevels, CLI --detect-levels): jeder Eintrag wird dafür bis zu
+ * viermal komprimiert. Ohne Stufe im Manifest meldet pack --strict eine abweichende Stufe als Größen-/CRC-Abweichung.
+ */
+export function detectCompressionFlags(file: PackagedFileInfo, content: Buffer, version: number): number {
+	if (version !== PackageVersion.V13 || file.deleted || file.crc === 0 || (file.flags & 0xf0) !== 0) return file.flags;
+	if (getCompressionMethod(file.flags) === CompressionMethod.None) return file.flags;
+	for (const levelBits of [0, ...Object.values(LEVEL_FLAGS)]) {
+		const candidate = compress(content, file.flags | levelBits);
+		if (candidate.length === file.sizeOnDisk && crc32(candidate) === file.crc) return file.flags | levelBits;
+	}
+	return file.flags;
+}
+
+/**
+ * Manifest v2 für die Einträge eines Packages.
+ * `complete` = alle Einträge wurden entpackt; nur dann wird der Header-Md5 übernommen.
+ */
+export function createManifest(
+	header: { version: number; flags?: number; priority?: number; numParts: number; md5?: Buffer },
+	files: PackagedFileInfo[],
+	complete = true
+): PackageManifest {
+	const manifest: Omit<PackageManifest, "files"> = { manifestVersion: MANIFEST_VERSION, version: header.version };
+	// Solid-Packages werden entpackt und einzeln wieder gepackt, das Flag darf nicht übernommen werden
+	if (header.flags !== undefined) manifest.flags = header.flags & ~PackageFlags.Solid;
+	if (header.priority !== undefined) manifest.priority = header.priority;
+	manifest.numParts = header.numParts;
+	if (complete && header.md5?.some((b) => b !== 0)) manifest.md5 = header.md5.toString("hex");
+	const entries = files.map((file): ManifestEntry => {
+		if (file.deleted) return { name: file.name, deleted: true };
+		const entry: ManifestEntry = { name: file.name, method: methodName(file.flags) };
+		const level = levelName(file.flags);
+		if (level) entry.level = level;
+		entry.size = file.uncompressedSize;
+		entry.sizeOnDisk = file.sizeOnDisk;
+		entry.crc = file.crc;
+		entry.part = file.archivePart;
+		return entry;
+	});
+	return { ...manifest, files: entries };
+}
+
+export function writeManifest(dir: string, manifest: PackageManifest): void {
+	writeFileSync(join(dir, MANIFEST_NAME), JSON.stringify(manifest, null, 0), "utf8");
+}
+
+/** __manifest__.json eines Verzeichnisses lesen und prüfen; undefined, wenn keines existiert */
+export function readManifest(dir: string): PackageManifest | undefined {
+	const manifestPath = join(dir, MANIFEST_NAME);
+	if (!existsSync(manifestPath)) return undefined;
+	return parseManifest(readFileSync(manifestPath, "utf8"), manifestPath);
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isUint(value: unknown, max = Number.MAX_SAFE_INTEGER): value is number {
+	return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+}
+
+/**
+ * Manifest-Inhalt prüfen; Fehlermeldungen nennen Datei und Feld,
+ * z.B. "__manifest__.json: files[3].crc muss eine Ganzzahl 0–4294967295 sein".
+ */
+export function parseManifest(json: string, source = MANIFEST_NAME): PackageManifest {
+	const fail = (message: string): never => {
+		throw new Error(`${source}: ${message}`);
+	};
+	let raw: unknown;
+	try {
+		raw = JSON.parse(json);
+	} catch (err) {
+		return fail(`kein gültiges JSON (${err instanceof Error ? err.message : String(err)})`);
+	}
+	if (!isObject(raw)) return fail("Objekt erwartet");
+
+	const manifestVersion = raw.manifestVersion ?? 1;
+	if (manifestVersion !== 1 && manifestVersion !== MANIFEST_VERSION) {
+		fail(`nicht unterstützte manifestVersion ${JSON.stringify(manifestVersion)} (1 oder ${MANIFEST_VERSION})`);
+	}
+	if (!isUint(raw.version) || !(raw.version in PackageVersion)) {
+		fail(`version muss eine unterstützte LSPK-Version sein, gefunden: ${JSON.stringify(raw.version)}`);
+	}
+	for (const key of ["flags", "priority"] as const) {
+		if (raw[key] !== undefined && !isUint(raw[key], 0xff)) fail(`${key} muss eine Ganzzahl 0–255 sein`);
+	}
+	if (raw.numParts !== undefined && !isUint(raw.numParts, 0xffff)) fail("numParts muss eine Ganzzahl 0–65535 sein");
+	if (raw.md5 !== undefined && (typeof raw.md5 !== "string" || !/^[0-9a-f]{32}$/i.test(raw.md5))) {
+		fail("md5 muss ein Hex-String mit 32 Zeichen sein");
+	}
+	if (!Array.isArray(raw.files)) return fail("files muss ein Array sein");
+
+	const manifest: PackageManifest = {
+		manifestVersion: manifestVersion as number,
+		version: raw.version as number,
+		files: []
+	};
+	if (raw.flags !== undefined) manifest.flags = raw.flags as number;
+	if (raw.priority !== undefined) manifest.priority = raw.priority as number;
+	if (raw.numParts !== undefined) manifest.numParts = raw.numParts as number;
+	if (raw.md5 !== undefined) manifest.md5 = (raw.md5 as string).toLowerCase();
+
+	const names = new Set<string>();
+	const addName = (name: string, path: string) => {
+		if (names.has(name)) fail(`${path}: Eintrag ${name} doppelt`);
+		names.add(name);
+	};
+
+	raw.files.forEach((item: unknown, i: number) => {
+		const path = `files[${i}]`;
+		if (manifestVersion === 1) {
+			// v1: Name oder { name, flags }
+			const entry = typeof item === "string" ? { name: item } : item;
+			if (!isObject(entry) || typeof entry.name !== "string" || entry.name === "") fail(`${path}.name muss ein nicht leerer String sein`);
+			const { name, flags } = entry as Json;
+			if (flags !== undefined && !isUint(flags, 0xff)) fail(`${path}.flags muss eine Ganzzahl 0–255 sein`);
+			addName(name as string, path);
+			const entryFlags = (flags as number | undefined) ?? DEFAULT_LSV_FLAGS;
+			let converted: ManifestEntry;
+			try {
+				converted = { name: name as string, method: methodName(entryFlags) };
+				const level = levelName(entryFlags);
+				if (level) converted.level = level;
+			} catch (err) {
+				return fail(`${path}.flags: ${err instanceof Error ? err.message : String(err)} (${name})`);
+			}
+			manifest.files.push(converted);
+			return;
+		}
+
+		if (!isObject(item)) return fail(`${path} muss ein Objekt sein`);
+		if (typeof item.name !== "string" || item.name === "") fail(`${path}.name muss ein nicht leerer String sein`);
+		const name = item.name as string;
+		addName(name, path);
+		if (item.deleted !== undefined && item.deleted !== true) fail(`${path}.deleted darf nur true sein`);
+		if (item.deleted) {
+			const extra = Object.keys(item).filter((key) => key !== "name" && key !== "deleted");
+			if (extra.length > 0) fail(`${path} (${name}): Löschmarker ohne weitere Felder erwartet, gefunden: ${extra.join(", ")}`);
+			manifest.files.push({ name, deleted: true });
+			return;
+		}
+		if (typeof item.method !== "string" || !(item.method in METHOD_NAMES)) {
+			fail(`${path}.method muss eines von ${Object.keys(METHOD_NAMES).join(", ")} sein (${name})`);
+		}
+		if (item.level !== undefined && (typeof item.level !== "string" || !(item.level in LEVEL_FLAGS))) {
+			fail(`${path}.level muss fast, default oder max sein (${name})`);
+		}
+		for (const key of ["size", "sizeOnDisk", "crc"] as const) {
+			if (!isUint(item[key], 0xffffffff)) fail(`${path}.${key} muss eine Ganzzahl 0–4294967295 sein (${name})`);
+		}
+		if (!isUint(item.part, 0xffff)) fail(`${path}.part muss eine Ganzzahl 0–65535 sein (${name})`);
+		if (manifest.numParts !== undefined && (item.part as number) >= manifest.numParts) {
+			fail(`${path}.part ${item.part} liegt außerhalb von numParts ${manifest.numParts} (${name})`);
+		}
+		const entry: ManifestEntry = { name, method: item.method as ManifestMethod };
+		if (item.level !== undefined) entry.level = item.level as CompressionLevel;
+		entry.size = item.size as number;
+		entry.sizeOnDisk = item.sizeOnDisk as number;
+		entry.crc = item.crc as number;
+		entry.part = item.part as number;
+		manifest.files.push(entry);
+	});
+
+	// v1 führte Löschmarker separat (hinter allen Dateien)
+	if (raw.deleted !== undefined) {
+		if (manifestVersion !== 1) fail("deleted gibt es nur in Manifest v1, ab v2 stehen Löschmarker in files");
+		if (!Array.isArray(raw.deleted) || raw.deleted.some((name) => typeof name !== "string" || name === "")) {
+			fail("deleted muss ein Array nicht leerer Strings sein");
+		}
+		(raw.deleted as string[]).forEach((name, i) => {
+			addName(name, `deleted[${i}]`);
+			manifest.files.push({ name, deleted: true });
+		});
+	}
+	if (manifest.files.length === 0) fail("files ist leer");
+	return manifest;
+}
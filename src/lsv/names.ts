@@ -0,0 +1,71 @@
+/**
+ * Prüfung von Eintragsnamen
+ * Namen aus Packages stammen aus fremden Dateien (Saves, Mods) und werden vor jedem Schreiben
+ * auf Disk geprüft, damit kein Eintrag aus dem Zielverzeichnis ausbrechen kann.
+ */
+
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+
+/** Name-Feld der File-List: 256 Bytes inkl. abschließendem NUL */
+export const MAX_ENTRY_NAME_BYTES = 255;
+
+/** Grund, warum ein Name beim Entpacken abgelehnt wird, oder undefined */
+export function unsafeEntryNameReason(name: string): string | undefined {
+	if (name.length === 0) return "leerer Name";
+	if (name.includes("\0")) return "enthält NUL-Byte";
+	if (name.includes("\\")) return "enthält Backslash";
+	if (name.startsWith("/") || /^[a-zA-Z]:/.test(name) || isAbsolute(name)) return "absoluter Pfad";
+	const segments = name.split("/");
+	if (segments.includes("..")) return "enthält '..'";
+	if (segments.some((s) => s === "" || s === ".")) return "leeres oder '.'-Segment";
+	return undefined;
+}
+
+/** Wirft bei Namen, die beim Entpacken außerhalb des Zielverzeichnisses landen könnten */
+export function assertSafeEntryName(name: string): void {
+	const reason = unsafeEntryNameReason(name);
+	if (reason) {
+		throw new Error(`Unsicherer Eintragsname ${JSON.stringify(name)}: ${reason}`);
+	}
+}
+
+/** Pfad eines Eintrags unterhalb von baseDir; prüft den Namen und dass das Ergebnis in baseDir liegt */
+export function entryPath(baseDir: string, name: string): string {
+	assertSafeEntryName(name);
+	const root = resolve(baseDir);
+	const target = resolve(root, name);
+	const rel = relative(root, target);
+	if (rel === "" || rel.startsWith(`..${sep}`) || rel === ".." || isAbsolute(rel)) {
+		throw new Error(`Eintrag ${JSON.stringify(name)} liegt außerhalb von ${baseDir}`);
+	}
+	return join(baseDir, name);
+}
+
+/** Beim Packen: Name muss sicher sein und in das 256-Byte-Feld der File-List passen */
+export function assertPackableEntryName(name: string): void {
+	assertSafeEntryName(name);
+	const bytes = Buffer.byteLength(name, "utf8");
+	if (bytes > MAX_ENTRY_NAME_BYTES) {
+		throw new Error(`Eintragsname zu lang (${bytes} Bytes, maximal ${MAX_ENTRY_NAME_BYTES}): ${name}`);
+	}
+}
+
+/** Glob (*, **, ?) → RegExp; ohne "/" wird nur der Dateiname geprüft */
+export function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const c = pattern[i];
+		if (c === "*" && pattern[i + 1] === "*") {
+			const slash = pattern[i + 2] === "/";
+			source += slash ? "(?:.*/)?" : ".*";
+			i += slash ? 2 : 1;
+		} else if (c === "*") {
+			source += "[^/]*";
+		} else if (c === "?") {
+			source += "[^/]";
+		} else {
+			source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(pattern.includes("/") ? `^${source}$` : `(?:^|/)${source}$`, "i");
+}
@@ -1,111 +1,34 @@
 /**
- * LSV Packer – packt Dateien zurück in ein LSV-Paket
- * LSLib-kompatibel: FileEntry15 für v13, Padding 0xAD, CRC32, Manifest-Reihenfolge
- * Unterstützt DOS2 (v13) und BG3 (v15/v16/v18)
+ * LSV Packer – packt Verzeichnisse zurück in ein LSV-Paket
+ * LSLib-kompatibel: Manifest-Reihenfolge und Flags, Layout über PackageBuilder
+ * Unterstützt DOS1 (v7/v9), DOS2 (v10/v13) und BG3 (v15/v16/v18)
  */
 
-import { readFileSync, writeFileSync, existsSync, readdirSync } from "node:fs";
+import { readFileSync, existsSync, readdirSync, unlinkSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
-import { compress } from "./compression.js";
-import { LSPK_SIGNATURE } from "./types.js";
+import { LsvArchive } from "./archive.js";
+import { PackageBuilder } from "./builder.js";
+import type { PackageBuilderOptions } from "./builder.js";
+import { MANIFEST_NAME, manifestEntryFlags, readManifest } from "./manifest.js";
+import type { ManifestEntry, PackageManifest } from "./manifest.js";
+import { entryPath } from "./names.js";
+import type { PackLsvOptions } from "./builder.js";
+import { crc32 } from "./hash.js";
+import { PackageFlags, PackageVersion, getPartPath } from "./types.js";
+import { bufferSource, readPackageIndex } from "./unpacker.js";
 import { parseLsx } from "../lsx/lsx-reader.js";
-import { writeLsfToBuffer } from "../lsf/writer.js";
+import { WorkerPool } from "../workers/pool.js";
 
-const FILE_ENTRY_10_SIZE = 280;
-const FILE_ENTRY_15_SIZE = 304; // LSLib: Name(256)+Offset(8)+SizeDisk(8)+Uncomp(8)+Part(4)+Flags(4)+Crc(4)+Unknown2(4)
-const FILE_ENTRY_18_SIZE = 272;
-const COMPRESSION_LZ4 = 2;
-/** DOS2 v13: 64-Byte-Alignment, Padding 0xAD (LSLib) */
-const LSPK_ALIGNMENT = 64;
-const LSPK_PADDING_BYTE = 0xad;
-const MANIFEST_NAME = "__manifest__.json";
-
-function writeU32(buf: Buffer, offset: number, val: number): void {
-	buf.writeUInt32LE(val, offset);
-}
-
-function writeU64(buf: Buffer, offset: number, val: number): void {
-	buf.writeBigUInt64LE(BigInt(val), offset);
-}
-
-/** CRC32 (IEEE) für LSLib v10–v16 Kompatibilität */
-function crc32(buf: Buffer): number {
-	let crc = 0xffffffff;
-	const table = new Uint32Array(256);
-	for (let i = 0; i < 256; i++) {
-		let c = i;
-		for (let k = 0; k < 8; k++) c = (c & 1) ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
-		table[i] = c >>> 0;
-	}
-	for (let i = 0; i < buf.length; i++) {
-		crc = table[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
-	}
-	return (crc ^ 0xffffffff) >>> 0;
-}
-
-function padNullTerminated(str: string, maxLen: number): Buffer {
-	const b = Buffer.alloc(maxLen, 0);
-	const enc = Buffer.from(str, "utf8");
-	enc.copy(b, 0, 0, Math.min(enc.length, maxLen - 1));
-	return b;
-}
-
-interface FileEntry {
-	name: string;
-	flags: number;
-	uncompressedSize: number;
-	archivePart?: number;
-	crc?: number;
-}
-
-/** DOS2 LSV: Zlib für alle Dateien (wie Divine/LSLib) */
-const DEFAULT_LSV_FLAGS = 33; // Zlib + DefaultCompress
-
-interface ManifestFile {
-	name: string;
-	flags?: number;
-}
+export type { PackLsvOptions, PackCompression, PackCompressionRule } from "./builder.js";
 
 interface ScanResult {
-	files: ManifestFile[];
-	headerFlags?: number;
-	headerPriority?: number;
-}
-
-/** Verzeichnis scannen; nutzt __manifest__.json für Reihenfolge + Flags (LSLib-kompatibel) */
-function scanDirectory(dir: string): ManifestFile[] {
-	return scanDirectoryWithManifest(dir).files;
+	/** Einträge in Package-Reihenfolge, inkl. Löschmarker */
+	files: ManifestEntry[];
+	manifest?: PackageManifest;
 }
 
-function scanDirectoryWithManifest(dir: string): ScanResult {
-	const manifestPath = join(dir, MANIFEST_NAME);
-	if (existsSync(manifestPath)) {
-		try {
-			const raw = readFileSync(manifestPath, "utf8");
-			const manifest = JSON.parse(raw) as {
-				version?: number;
-				flags?: number;
-				priority?: number;
-				files?: string[] | { name: string; flags?: number }[];
-			};
-			if (Array.isArray(manifest.files) && manifest.files.length > 0) {
-				const files = manifest.files
-					.filter((f) => (typeof f === "string" ? f : f.name) !== MANIFEST_NAME)
-					.map((f) =>
-						typeof f === "string"
-							? { name: f, flags: DEFAULT_LSV_FLAGS }
-							: { name: f.name, flags: f.flags ?? DEFAULT_LSV_FLAGS }
-					);
-				return {
-					files,
-					headerFlags: manifest.flags,
-					headerPriority: manifest.priority
-				};
-			}
-		} catch {
-			/* fallback */
-		}
-	}
+/** Dateien eines Verzeichnisses (ohne versteckte und Manifest), relativ mit "/" */
+function listDirectory(dir: string): string[] {
 	const fileNames: string[] = [];
 	function walk(base: string) {
 		for (const entry of readdirSync(join(dir, base), { withFileTypes: true })) {
@@ -121,289 +44,243 @@ function scanDirectoryWithManifest(dir: string): ScanResult {
 		}
 	}
 	walk("");
-	return { files: fileNames.sort().map((name) => ({ name, flags: DEFAULT_LSV_FLAGS })) };
+	return fileNames.sort();
 }
 
-/** FileEntry15 (304 B) – LSLib v13 Format mit CRC32 */
-function buildFileListV13(
-	files: FileEntry[],
-	offsets: number[],
-	sizesOnDisk: number[]
-): Buffer {
-	const numFiles = files.length;
-	const buf = Buffer.alloc(numFiles * FILE_ENTRY_15_SIZE);
-	for (let i = 0; i < numFiles; i++) {
-		const f = files[i];
-		const o = i * FILE_ENTRY_15_SIZE;
-		padNullTerminated(f.name, 256).copy(buf, o);
-		writeU64(buf, o + 256, offsets[i]);
-		writeU64(buf, o + 264, sizesOnDisk[i]);
-		writeU64(buf, o + 272, f.uncompressedSize || sizesOnDisk[i]);
-		writeU32(buf, o + 280, f.archivePart ?? 0);
-		writeU32(buf, o + 284, f.flags & 0x0f);
-		writeU32(buf, o + 288, f.crc ?? 0);
-		writeU32(buf, o + 292, 0);
+/**
+ * Verzeichnis scannen; mit __manifest__.json gelten dessen Reihenfolge, Kompression und Parts
+ * (LSLib-kompatibel), sonst alle Dateien sortiert mit Zlib. Ein fehlerhaftes Manifest ist ein Fehler.
+ * `packageName` bildet Dateinamen auf Namen im Package ab (LSX-Ordner: .lsx → .lsf).
+ */
+function scanDirectoryWithManifest(dir: string, packageName: (rel: string) => string = (rel) => rel): ScanResult {
+	const manifest = readManifest(dir);
+	if (!manifest) {
+		return { files: listDirectory(dir).map((name) => ({ name })) };
 	}
-	return buf;
+	const files = manifest.files.filter((f) => f.name !== MANIFEST_NAME);
+	// Dateien, die nicht im Manifest stehen, würden sonst unbemerkt fehlen
+	const listed = new Set(files.map((f) => f.name));
+	const unlisted = listDirectory(dir).filter((rel) => !listed.has(rel) && !listed.has(packageName(rel)));
+	if (unlisted.length > 0) {
+		throw new Error(`${join(dir, MANIFEST_NAME)}: Dateien fehlen im Manifest (eintragen oder entfernen): ${unlisted.join(", ")}`);
+	}
+	return { files, manifest };
 }
 
-function buildFileListDOS2(files: FileEntry[], offsets: number[], sizesOnDisk: number[]): Buffer {
-	const numFiles = files.length;
-	const buf = Buffer.alloc(numFiles * FILE_ENTRY_10_SIZE);
-	for (let i = 0; i < numFiles; i++) {
-		const f = files[i];
-		const o = i * FILE_ENTRY_10_SIZE;
-		padNullTerminated(f.name, 256).copy(buf, o);
-		writeU32(buf, o + 256, offsets[i]);
-		writeU32(buf, o + 260, sizesOnDisk[i]);
-		writeU32(buf, o + 264, f.uncompressedSize || sizesOnDisk[i]);
-		writeU32(buf, o + 268, f.archivePart ?? 0);
-		writeU32(buf, o + 272, f.flags);
+/** Builder-Optionen: explizite Optionen vor Manifest (Version, Header-Flags, Priority) */
+function builderOptions(scan: ScanResult, options: PackLsvOptions | undefined): PackageBuilderOptions {
+	const { manifest } = scan;
+	if (options?.strict && manifest?.manifestVersion !== 2) {
+		throw new Error("strict benötigt ein __manifest__.json im Format v2 (mit aktuellem unpack erzeugen)");
 	}
-	return buf;
+	const result: PackageBuilderOptions = { ...options, flags: manifest?.flags, priority: manifest?.priority };
+	const version = options?.version ?? manifest?.version;
+	if (version !== undefined) result.version = version;
+	return result;
+}
+
+/** Part aus dem Manifest nur, solange weder Part-Größe noch Version geändert werden */
+function manifestPart(entry: ManifestEntry, scan: ScanResult, options: PackageBuilderOptions): number | undefined {
+	if (options.maxPartSize !== undefined || options.version !== scan.manifest?.version) return undefined;
+	return entry.part;
 }
 
-function buildFileListBG3(files: FileEntry[], offsets: number[], sizesOnDisk: number[], dataStartOffset: number): Buffer {
-	const numFiles = files.length;
-	const buf = Buffer.alloc(numFiles * FILE_ENTRY_18_SIZE);
-	for (let i = 0; i < numFiles; i++) {
-		const f = files[i];
-		const o = i * FILE_ENTRY_18_SIZE;
-		padNullTerminated(f.name, 256).copy(buf, o);
-		writeU32(buf, o + 256, dataStartOffset + offsets[i]);
-		buf.writeUInt16LE(0, o + 260);
-		buf.writeUInt8(f.archivePart ?? 0, o + 262);
-		buf.writeUInt8(f.flags, o + 263);
-		writeU32(buf, o + 264, sizesOnDisk[i]);
-		writeU32(buf, o + 268, f.uncompressedSize || sizesOnDisk[i]);
+/** Gepacktes Ergebnis mit dem Manifest vergleichen (PackLsvOptions.strict) */
+function assertMatchesManifest(parts: Buffer[], manifest: PackageManifest): void {
+	const { header, files } = readPackageIndex(bufferSource(parts[0]));
+	const diffs: string[] = [];
+	const compare = (what: string, actual: unknown, expected: unknown) => {
+		if (expected !== undefined && actual !== expected) diffs.push(`${what}: ${String(actual)} statt ${String(expected)}`);
+	};
+	compare("version", header.version, manifest.version);
+	compare("flags", header.flags ?? 0, manifest.flags);
+	compare("priority", header.priority ?? 0, manifest.priority);
+	compare("numParts", parts.length, manifest.numParts);
+	compare("md5", header.md5?.toString("hex"), manifest.md5);
+	compare("Anzahl Einträge", files.length, manifest.files.length);
+	files.forEach((file, i) => {
+		const expected = manifest.files[i];
+		if (!expected) return;
+		const at = `files[${i}]`;
+		compare(`${at}.name`, file.name, expected.name);
+		compare(`${at}.deleted (${file.name})`, file.deleted, expected.deleted ?? false);
+		if (file.deleted || expected.deleted) return;
+		// v13 speichert nur die Methode, die Stufe steckt in Größe und CRC
+		const flags = manifestEntryFlags(expected);
+		compare(`${at}.flags (${file.name})`, file.flags, header.version === PackageVersion.V13 ? flags & 0x0f : flags);
+		compare(`${at}.size (${file.name})`, file.uncompressedSize, expected.size);
+		compare(`${at}.sizeOnDisk (${file.name})`, file.sizeOnDisk, expected.sizeOnDisk);
+		compare(`${at}.crc (${file.name})`, file.crc, expected.crc);
+		compare(`${at}.part (${file.name})`, file.archivePart, expected.part);
+	});
+	if (diffs.length > 0) {
+		const shown = diffs.slice(0, 20).map((d) => `  ${d}`);
+		if (diffs.length > shown.length) shown.push(`  … und ${diffs.length - shown.length} weitere`);
+		// Ohne ermittelte Stufe (unpack ohne --detect-levels) kann v13 nur mit der Default-Stufe übereinstimmen
+		const sizeDiffers = diffs.some((d) => d.includes(".sizeOnDisk") || d.includes(".crc"));
+		const levelUnknown = sizeDiffers && header.version === PackageVersion.V13 && manifest.files.some((file) => !file.deleted && file.method !== "none" && !file.level);
+		if (levelUnknown) shown.push("  (v13: Stufe nicht im Manifest – mit unpack/extract-lsx --detect-levels ermitteln)");
+		throw new Error(`Package weicht vom Manifest ab:\n${shown.join("\n")}`);
 	}
-	return buf;
 }
 
-export interface PackLsvOptions {
-	/** LSV-Version: 13=DOS2, 15/16/18=BG3. Default 13. */
-	version?: number;
+function writePackage(outputPath: string, parts: Buffer[], scan: ScanResult, options: PackLsvOptions | undefined): void {
+	if (options?.strict) assertMatchesManifest(parts, scan.manifest!);
+	parts.forEach((part, i) => writeFileSync(getPartPath(outputPath, i), part));
 }
 
 /**
  * Packt ein Verzeichnis (LSF-Dateien) zurück in eine LSV-Datei.
- * Scannt Verzeichnis, Zlib für alle (wie Divine).
+ * Mit __manifest__.json wie das Original (Version, Reihenfolge, Kompression, Parts), sonst Zlib für alle (wie Divine).
  */
 export function packLsv(inputDir: string, outputPath: string, options?: PackLsvOptions): void {
-	const version = options?.version ?? 13;
-	const isBG3 = version === 15 || version === 16 || version === 18;
-	const useAlignment = !isBG3;
-
-	const dataChunks: Buffer[] = [];
-	const offsets: number[] = [];
-	const sizesOnDisk: number[] = [];
-	let offset = 0;
+	const scan = scanDirectoryWithManifest(inputDir);
+	writePackage(outputPath, directoryBuilder(inputDir, scan, options).toBuffers(), scan, options);
+}
 
-	const { files: scanned, headerFlags, headerPriority } = scanDirectoryWithManifest(inputDir);
-	const filesToPack: FileEntry[] = scanned.map((m) => ({
-		name: m.name,
-		flags: m.flags ?? DEFAULT_LSV_FLAGS,
-		uncompressedSize: 0,
-		archivePart: 0
-	}));
+/** Wie packLsv, komprimiert aber parallel in options.jobs Worker-Threads (Reihenfolge bleibt gleich) */
+export async function packLsvAsync(inputDir: string, outputPath: string, options?: PackLsvOptions): Promise<void> {
+	const scan = scanDirectoryWithManifest(inputDir);
+	writePackage(outputPath, await directoryBuilder(inputDir, scan, options).toBuffersAsync(), scan, options);
+}
 
-	for (const f of filesToPack) {
-		const filePath = join(inputDir, f.name);
+function directoryBuilder(inputDir: string, scan: ScanResult, options: PackLsvOptions | undefined): PackageBuilder {
+	const resolved = builderOptions(scan, options);
+	const builder = new PackageBuilder(resolved);
+	for (const m of scan.files) {
+		if (m.deleted) {
+			builder.addDeleted(m.name);
+			continue;
+		}
+		const filePath = entryPath(inputDir, m.name);
 		if (!existsSync(filePath)) {
 			throw new Error(`Datei nicht gefunden: ${filePath}`);
 		}
-		const raw = readFileSync(filePath);
-		const uncompressedSize = raw.length;
-		const compressed = f.flags === 0 ? raw : compress(raw, f.flags);
-		f.uncompressedSize = uncompressedSize;
-		if (version >= 10 && version <= 16) f.crc = crc32(compressed);
-		offsets.push(offset);
-		sizesOnDisk.push(compressed.length);
-		if (useAlignment) {
-			const aligned = Math.ceil((offset + compressed.length) / LSPK_ALIGNMENT) * LSPK_ALIGNMENT;
-			const padding = aligned - offset - compressed.length;
-			dataChunks.push(compressed);
-			if (padding > 0) {
-				dataChunks.push(Buffer.alloc(padding, LSPK_PADDING_BYTE));
-			}
-			offset = aligned;
-		} else {
-			offset += compressed.length;
-			dataChunks.push(compressed);
-		}
-	}
-	const dataBlock = Buffer.concat(dataChunks);
-
-	const bg3DataStart = 40;
-	const fileList = isBG3
-		? buildFileListBG3(filesToPack, offsets, sizesOnDisk, bg3DataStart)
-		: version === 13
-			? buildFileListV13(filesToPack, offsets, sizesOnDisk)
-			: buildFileListDOS2(filesToPack, offsets, sizesOnDisk);
-	const compressedFileList = compress(fileList, COMPRESSION_LZ4);
-	if (compressedFileList.length > fileList.length) {
-		throw new Error(`File list compression fehlgesch: komprimiert ${compressedFileList.length} > unkomprimiert ${fileList.length}`);
+		builder.add(m.name, readFileSync(filePath), { flags: manifestEntryFlags(m), part: manifestPart(m, scan, resolved) });
 	}
-	const numFilesBuf = Buffer.alloc(4);
-	writeU32(numFilesBuf, 0, filesToPack.length);
-	const fileListRaw = Buffer.concat([numFilesBuf, compressedFileList]);
-
-	const fileListOffset = dataBlock.length;
-	const fileListSize = isBG3 ? 4 + 4 + compressedFileList.length : fileListRaw.length;
-
-	let output: Buffer;
-
-	if (isBG3) {
-		const header = Buffer.alloc(40);
-		writeU32(header, 0, LSPK_SIGNATURE);
-		writeU32(header, 4, version);
-		writeU64(header, 8, bg3DataStart + dataBlock.length);
-		writeU32(header, 16, fileListSize);
-		header.writeUInt8(0, 20);
-		header.writeUInt8(0, 21);
-		header.fill(0, 22, 38);
-		header.writeUInt16LE(1, 38);
-
-		const numFilesBuf = Buffer.alloc(4);
-		writeU32(numFilesBuf, 0, filesToPack.length);
-		const compressedSizeBuf = Buffer.alloc(4);
-		writeU32(compressedSizeBuf, 0, compressedFileList.length);
-
-		output = Buffer.concat([header, dataBlock, numFilesBuf, compressedSizeBuf, compressedFileList]);
-	} else {
-		// DOS2 v13: Trailer am Ende (LSPKHeader13: Version, FileListOffset, FileListSize, NumParts, Flags, Priority, Md5[16])
-		const header = Buffer.alloc(32);
-		writeU32(header, 0, version);
-		writeU32(header, 4, fileListOffset);
-		writeU32(header, 8, fileListSize);
-		header.writeUInt16LE(1, 12); // NumParts
-		header.writeUInt8(headerFlags ?? 0, 14); // Flags
-		header.writeUInt8(headerPriority ?? 0, 15); // Priority
-		header.fill(0, 16, 32); // Md5
+	return builder;
+}
 
-		const trailerSize = 40;
-		const trailer = Buffer.alloc(trailerSize);
-		header.copy(trailer, 0, 0, 32);
-		writeU32(trailer, 32, trailerSize);
-		writeU32(trailer, 36, LSPK_SIGNATURE);
+const toLsfName = (rel: string) => rel.replace(/\.lsx$/i, ".lsf");
 
-		output = Buffer.concat([dataBlock, fileListRaw, trailer]);
+/**
+ * Quelle eines Eintrags im LSX-Ordner: X.lsf wird aus X.lsx erzeugt, falls vorhanden;
+ * ältere Manifeste führen die .lsx-Namen direkt.
+ */
+function lsxSource(inputDir: string, name: string): { path: string; convert: boolean } {
+	if (name.toLowerCase().endsWith(".lsx")) return { path: entryPath(inputDir, name), convert: true };
+	if (name.toLowerCase().endsWith(".lsf")) {
+		const lsxPath = entryPath(inputDir, name.replace(/\.lsf$/i, ".lsx"));
+		if (existsSync(lsxPath)) return { path: lsxPath, convert: true };
 	}
-
-	writeFileSync(outputPath, output);
+	const path = entryPath(inputDir, name);
+	if (!existsSync(path)) {
+		throw new Error(`Datei nicht gefunden: ${path}`);
+	}
+	return { path, convert: false };
 }
 
 /**
  * Packt ein Verzeichnis mit LSX-Dateien (+ PNG etc.) zurück in eine LSV-Datei.
- * LSX → LSF konvertiert, andere Dateien unverändert. Scannt Verzeichnis (wie Divine).
+ * LSX → LSF konvertiert, andere Dateien unverändert. Reihenfolge und Kompression wie bei packLsv.
  */
 export function packLsvFromLsx(inputDir: string, outputPath: string, options?: PackLsvOptions): void {
-	const version = options?.version ?? 13;
-	const isBG3 = version === 15 || version === 16 || version === 18;
-	const useAlignment = !isBG3;
-
-	const { files: scanned, headerFlags, headerPriority } = scanDirectoryWithManifest(inputDir);
-	const filesToPack: FileEntry[] = [];
-	const dataChunks: Buffer[] = [];
-	const offsets: number[] = [];
-	const sizesOnDisk: number[] = [];
-	let offset = 0;
-
-	for (const m of scanned) {
-		const rel = m.name;
-		const filePath = join(inputDir, rel);
-		let raw: Buffer;
-		let packageName: string;
-		if (rel.toLowerCase().endsWith(".lsx")) {
-			const { root, version: lsxVersion } = parseLsx(filePath);
-			const lsxOpts = lsxVersion.major >= 4 ? undefined : { metadataFormat: 0 };
-			raw = writeLsfToBuffer(root, lsxVersion, lsxOpts);
-			packageName = rel.replace(/\.lsx$/i, ".lsf");
-		} else {
-			raw = readFileSync(filePath);
-			packageName = rel;
+	const scan = scanDirectoryWithManifest(inputDir, toLsfName);
+	const resolved = builderOptions(scan, options);
+	const builder = new PackageBuilder(resolved);
+
+	for (const m of scan.files) {
+		if (m.deleted) {
+			builder.addDeleted(m.name);
+			continue;
 		}
-		const flags = m.flags ?? DEFAULT_LSV_FLAGS;
-		const compressed = compress(raw, flags);
-		const entry: FileEntry = {
-			name: packageName,
-			flags,
-			uncompressedSize: raw.length,
-			archivePart: 0
-		};
-		if (version >= 10 && version <= 16) entry.crc = crc32(compressed);
-		filesToPack.push(entry);
-		offsets.push(offset);
-		sizesOnDisk.push(compressed.length);
-		if (useAlignment) {
-			const aligned = Math.ceil((offset + compressed.length) / LSPK_ALIGNMENT) * LSPK_ALIGNMENT;
-			const padding = aligned - offset - compressed.length;
-			dataChunks.push(compressed);
-			if (padding > 0) {
-				dataChunks.push(Buffer.alloc(padding, LSPK_PADDING_BYTE));
-			}
-			offset = aligned;
+		const entryOptions = { flags: manifestEntryFlags(m), part: manifestPart(m, scan, resolved) };
+		const source = lsxSource(inputDir, m.name);
+		if (source.convert) {
+			const { root, version: lsxVersion } = parseLsx(source.path);
+			const lsfOptions = lsxVersion.major >= 4 ? undefined : { metadataFormat: 0 };
+			builder.add(toLsfName(m.name), root, { ...entryOptions, lsfVersion: lsxVersion, lsfOptions });
 		} else {
-			offset += compressed.length;
-			dataChunks.push(compressed);
+			builder.add(m.name, readFileSync(source.path), entryOptions);
 		}
 	}
 
-	const dataBlock = Buffer.concat(dataChunks);
-
-	const bg3DataStart = 40;
-	const fileList = isBG3
-		? buildFileListBG3(filesToPack, offsets, sizesOnDisk, bg3DataStart)
-		: version === 13
-			? buildFileListV13(filesToPack, offsets, sizesOnDisk)
-			: buildFileListDOS2(filesToPack, offsets, sizesOnDisk);
-	const compressedFileList = compress(fileList, COMPRESSION_LZ4);
-
-	const fileListOffset = dataBlock.length;
-	const fileListSize = isBG3 ? 4 + 4 + compressedFileList.length : 4 + compressedFileList.length;
+	writePackage(outputPath, builder.toBuffers(), scan, options);
+}
 
-	if (compressedFileList.length > fileList.length) {
-		throw new Error(`File list compression fehlgesch: komprimiert ${compressedFileList.length} > unkomprimiert ${fileList.length}`);
+/** Wie packLsvFromLsx; LSX→LSF und Kompression laufen parallel in options.jobs Worker-Threads */
+export async function packLsvFromLsxAsync(inputDir: string, outputPath: string, options?: PackLsvOptions): Promise<void> {
+	const scan = scanDirectoryWithManifest(inputDir, toLsfName);
+	const resolved = builderOptions(scan, options);
+	const builder = new PackageBuilder(resolved);
+	const pool = new WorkerPool(options?.jobs);
+	try {
+		const contents = await Promise.all(
+			scan.files.map((m) => {
+				if (m.deleted) return undefined;
+				const source = lsxSource(inputDir, m.name);
+				return source.convert ? pool.run({ type: "lsx-to-lsf", path: source.path }) : readFileSync(source.path);
+			})
+		);
+		scan.files.forEach((m, i) => {
+			const content = contents[i];
+			if (m.deleted || !content) {
+				builder.addDeleted(m.name);
+			} else {
+				builder.add(toLsfName(m.name), content, { flags: manifestEntryFlags(m), part: manifestPart(m, scan, resolved) });
+			}
+		});
+		writePackage(outputPath, await builder.toBuffersAsync(pool), scan, options);
+	} finally {
+		await pool.close();
 	}
+}
 
-	const numFilesBuf = Buffer.alloc(4);
-	writeU32(numFilesBuf, 0, filesToPack.length);
-
-	let output: Buffer;
-
-	if (isBG3) {
-		const header = Buffer.alloc(40);
-		writeU32(header, 0, LSPK_SIGNATURE);
-		writeU32(header, 4, version);
-		writeU64(header, 8, bg3DataStart + dataBlock.length);
-		writeU32(header, 16, fileListSize);
-		header.writeUInt8(0, 20);
-		header.writeUInt8(0, 21);
-		header.fill(0, 22, 38);
-		header.writeUInt16LE(1, 38);
-
-		const compressedSizeBuf = Buffer.alloc(4);
-		writeU32(compressedSizeBuf, 0, compressedFileList.length);
-
-		output = Buffer.concat([header, dataBlock, numFilesBuf, compressedSizeBuf, compressedFileList]);
-	} else {
-		const header = Buffer.alloc(32);
-		writeU32(header, 0, version);
-		writeU32(header, 4, fileListOffset);
-		writeU32(header, 8, fileListSize);
-		header.writeUInt16LE(1, 12);
-		header.writeUInt8(headerFlags ?? 0, 14);
-		header.writeUInt8(headerPriority ?? 0, 15);
-		header.fill(0, 16, 32);
-
-		const trailerSize = 40;
-		const trailer = Buffer.alloc(trailerSize);
-		header.copy(trailer, 0, 0, 32);
-		writeU32(trailer, 32, trailerSize);
-		writeU32(trailer, 36, LSPK_SIGNATURE);
-
-		output = Buffer.concat([dataBlock, numFilesBuf, compressedFileList, trailer]);
+/**
+ * Ersetzt einzelne Einträge eines bestehenden Packages, ohne es zu entpacken.
+ * Unveränderte Einträge werden mit ihren komprimierten Bytes übernommen, nur die ersetzten
+ * werden (mit den bisherigen Flags) neu komprimiert; danach werden File-List und Header
+ * bzw. Trailer neu geschrieben. Version, Header-Flags und Priority bleiben erhalten, jeder Eintrag
+ * bleibt in seinem Part. Solid-Packages werden als einzelne Einträge geschrieben (ohne Solid-Flag).
+ * `compression`/`compressionRules` wirken nur auf die ersetzten Einträge.
+ *
+ * @example replaceEntries("Save.lsv", { "meta.lsf": buffer })
+ */
+export function replaceEntries(lsvPath: string, replacements: Record<string, Buffer>, options?: Omit<PackLsvOptions, "version">): void {
+	const archive = new LsvArchive(lsvPath);
+	const header = archive.header;
+	// Solid-Packages werden entpackt gelesen und einzeln wieder gepackt, das Flag darf nicht übernommen werden
+	const flags = header.flags === undefined ? undefined : header.flags & ~PackageFlags.Solid;
+	const builder = new PackageBuilder({ ...options, version: header.version, flags, priority: header.priority });
+	try {
+		for (const name of Object.keys(replacements)) {
+			if (!archive.has(name)) {
+				throw new Error(`Datei nicht im Package: ${name}`);
+			}
+		}
+		for (const file of archive.entries()) {
+			const replacement = replacements[file.name];
+			if (replacement) {
+				// Ersetzter Löschmarker wird zum normalen Eintrag mit Default-Kompression
+				builder.add(file.name, replacement, { flags: file.deleted ? undefined : file.flags, part: file.deleted ? undefined : file.archivePart });
+			} else if (file.deleted) {
+				builder.addDeleted(file.name);
+			} else {
+				const data = archive.readRaw(file.name);
+				if (file.crc !== 0 && crc32(data) !== file.crc) {
+					throw new Error(`CRC32 von ${file.name} stimmt nicht (erwartet ${file.crc.toString(16)}, berechnet ${crc32(data).toString(16)})`);
+				}
+				builder.addRaw(file.name, data, file.flags, file.uncompressedSize, file.archivePart);
+			}
+		}
+	} finally {
+		archive.close();
 	}
 
-	writeFileSync(outputPath, output);
+	const numParts = builder.writeTo(lsvPath);
+	// Übrig gebliebene Part-Dateien des alten Packages würden sonst als Teil des neuen gelesen
+	for (let i = numParts; i < header.numParts; i++) {
+		const partPath = getPartPath(lsvPath, i);
+		if (existsSync(partPath)) unlinkSync(partPath);
+	}
 }
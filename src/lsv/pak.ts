@@ -0,0 +1,292 @@
+/**
+ * Game-/Mod-Paks (.pak) – zusammengeführte Sicht über mehrere Packages
+ *
+ * Paks werden wie vom Spiel geladen: höhere Header-Priority gewinnt, bei gleicher Priority
+ * das später übergebene Pak. Löschmarker (Patch-Paks) verdecken Einträge aus Paks niedrigerer Priorität.
+ * Mod-Metadaten stammen aus Mods/<Folder>/meta.lsx (ModuleInfo) und werden mit parseLsx gelesen.
+ * buildModPak baut aus einem Mod-Projektordner ein Pak mit LZ4 und gesetzter Priority.
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { LsvArchive } from "./archive.js";
+import { PackageBuilder } from "./builder.js";
+import type { PackCompression, PackCompressionRule } from "./builder.js";
+import { entryPath } from "./names.js";
+import { CompressionMethod, PackageVersion } from "./types.js";
+import type { PackagedFileInfo } from "./types.js";
+import { WorkerPool } from "../workers/pool.js";
+import { parseLsx } from "../lsx/lsx-reader.js";
+import { toLegacyValue } from "../lsf/types.js";
+import type { LSFNode } from "../lsf/types.js";
+
+/** Mods/<Folder>/meta.lsx */
+const MOD_META_PATTERN = /^Mods\/([^/]+)\/meta\.lsx$/i;
+/** Modder-Konvention: "_merged.lsf.lsx" wird als "_merged.lsf" ins Pak gepackt */
+const BINARY_LSX_SUFFIX = /\.lsf\.lsx$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ModDependency {
+	uuid: string;
+	name: string;
+	folder: string;
+	version?: string;
+}
+
+export interface ModInfo {
+	/** Pak, aus dem die meta.lsx stammt */
+	pak: string;
+	/** Pfad der meta.lsx im Pak */
+	metaPath: string;
+	uuid: string;
+	name: string;
+	folder: string;
+	author?: string;
+	description?: string;
+	/** Version64 bzw. Version aus ModuleInfo */
+	version?: string;
+	/** Alle Attribute von ModuleInfo als String */
+	attributes: Record<string, string>;
+	dependencies: ModDependency[];
+}
+
+/** Gewinnender Eintrag der zusammengeführten Sicht */
+export interface PakEntry {
+	name: string;
+	/** Pfad des Paks, aus dem der Eintrag stammt */
+	pak: string;
+	priority: number;
+	entry: PackagedFileInfo;
+}
+
+function findNode(node: LSFNode, name: string): LSFNode | undefined {
+	if (node.name === name) return node;
+	for (const child of node.children) {
+		const found = findNode(child, name);
+		if (found) return found;
+	}
+	return undefined;
+}
+
+function attributeStrings(node: LSFNode): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const [key, attr] of Object.entries(node.attributes)) {
+		const value = toLegacyValue(attr);
+		result[key] = typeof value === "object" && "value" in value ? value.value : String(value);
+	}
+	return result;
+}
+
+/** ModuleInfo und Dependencies aus dem Inhalt einer meta.lsx */
+export function parseModMeta(xml: string, pak: string, metaPath: string): ModInfo {
+	const { root } = parseLsx(xml);
+	const moduleInfo = findNode(root, "ModuleInfo");
+	if (!moduleInfo) {
+		throw new Error(`${pak}: ${metaPath} enthält keinen ModuleInfo-Node`);
+	}
+	const attributes = attributeStrings(moduleInfo);
+	const folderFromPath = MOD_META_PATTERN.exec(metaPath)?.[1] ?? "";
+	const dependencies = (findNode(root, "Dependencies")?.children ?? [])
+		.filter((child) => child.name === "ModuleShortDesc")
+		.map((child) => {
+			const dep = attributeStrings(child);
+			return { uuid: dep.UUID ?? "", name: dep.Name ?? "", folder: dep.Folder ?? "", version: dep.Version64 ?? dep.Version };
+		});
+	return {
+		pak,
+		metaPath,
+		uuid: attributes.UUID ?? "",
+		name: attributes.Name ?? folderFromPath,
+		folder: attributes.Folder ?? folderFromPath,
+		author: attributes.Author,
+		description: attributes.Description,
+		version: attributes.Version64 ?? attributes.Version,
+		attributes,
+		dependencies
+	};
+}
+
+/** Alle Mods (Mods/<Folder>/meta.lsx) eines geöffneten Paks */
+export function readModInfos(archive: LsvArchive): ModInfo[] {
+	return archive
+		.entries()
+		.filter((file) => !file.deleted && MOD_META_PATTERN.test(file.name))
+		.map((file) => parseModMeta(archive.read(file.name).toString("utf8"), archive.path, file.name));
+}
+
+/**
+ * Mehrere Paks als ein Dateisystem.
+ *
+ * @example
+ * const paks = new PakSet(["Gustav.pak", "Shared.pak", "Mods/MyMod.pak"]);
+ * const template = paks.read("Public/Shared/RootTemplates/_merged.lsf");
+ * console.log(paks.mods().map((m) => m.name));
+ * paks.close();
+ */
+export class PakSet {
+	public readonly archives: LsvArchive[] = [];
+	private readonly merged = new Map<string, { info: PakEntry; archive: LsvArchive }>();
+
+	constructor(paths: string[]) {
+		try {
+			for (const path of paths) this.archives.push(new LsvArchive(path));
+		} catch (err) {
+			this.close();
+			throw err;
+		}
+		// Stabil nach Priority sortieren: gleiche Priority behält die übergebene Reihenfolge
+		const ordered = this.archives
+			.map((archive, index) => ({ archive, index }))
+			.sort((a, b) => (a.archive.header.priority ?? 0) - (b.archive.header.priority ?? 0) || a.index - b.index);
+		for (const { archive } of ordered) {
+			const priority = archive.header.priority ?? 0;
+			for (const entry of archive.entries()) {
+				if (entry.deleted) {
+					this.merged.delete(entry.name);
+				} else {
+					this.merged.set(entry.name, { info: { name: entry.name, pak: archive.path, priority, entry }, archive });
+				}
+			}
+		}
+	}
+
+	/** Gewinnende Einträge, nach Namen sortiert */
+	public entries(): PakEntry[] {
+		return [...this.merged.values()].map((m) => m.info).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+	}
+
+	public has(name: string): boolean {
+		return this.merged.has(name);
+	}
+
+	public get(name: string): PakEntry {
+		return this.lookup(name).info;
+	}
+
+	/** Inhalt aus dem Pak mit der höchsten Priorität */
+	public read(name: string): Buffer {
+		return this.lookup(name).archive.read(name);
+	}
+
+	/** Mod-Metadaten aller Paks (auch von Mods, deren meta.lsx überschrieben wurde) */
+	public mods(): ModInfo[] {
+		return this.archives.flatMap((archive) => readModInfos(archive));
+	}
+
+	/** Gewinnende Einträge entpacken; gibt die geschriebenen Pfade zurück */
+	public extract(outputDir: string, filter?: (name: string) => boolean): string[] {
+		const selected = this.entries().filter((e) => !filter || filter(e.name));
+		// Alle Namen vor dem ersten Schreiben prüfen
+		for (const { name } of selected) entryPath(outputDir, name);
+		const written: string[] = [];
+		for (const { name } of selected) {
+			const outPath = entryPath(outputDir, name);
+			mkdirSync(dirname(outPath), { recursive: true });
+			writeFileSync(outPath, this.read(name));
+			written.push(outPath);
+		}
+		return written;
+	}
+
+	public close(): void {
+		for (const archive of this.archives.splice(0)) archive.close();
+	}
+
+	private lookup(name: string): { info: PakEntry; archive: LsvArchive } {
+		const found = this.merged.get(name);
+		if (!found) throw new Error(`Datei in keinem Pak: ${name}`);
+		return found;
+	}
+}
+
+export interface BuildModPakOptions {
+	/** Spiel bestimmt die Default-Version: dos2 = v13, bg3 = v18 (Default: dos2) */
+	game?: "dos2" | "bg3";
+	/** LSPK-Version, überschreibt die Vorgabe von `game` */
+	version?: number;
+	/** Header-Priority 0–255 (Default: 0) */
+	priority?: number;
+	/** Default: LZ4 (HC) wie LSLib für Mod-Paks */
+	compression?: PackCompression;
+	compressionRules?: PackCompressionRule[];
+	/** Worker-Threads für LSX→LSF und Kompression (Default: Anzahl CPU-Kerne) */
+	jobs?: number;
+}
+
+/** Dateien eines Mod-Ordners (ohne versteckte), relativ mit "/" und sortiert */
+function listModFiles(dir: string): string[] {
+	const files: string[] = [];
+	function walk(base: string) {
+		for (const entry of readdirSync(join(dir, base), { withFileTypes: true })) {
+			if (entry.name.startsWith(".")) continue;
+			const rel = base ? `${base}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) walk(rel);
+			else if (entry.isFile()) files.push(rel);
+		}
+	}
+	walk("");
+	return files.sort();
+}
+
+/** Mods/<Name>/meta.lsx finden und ModuleInfo prüfen (UUID, Name, Folder = Ordnername) */
+export function validateModProject(modDir: string): ModInfo {
+	if (!existsSync(modDir) || !statSync(modDir).isDirectory()) {
+		throw new Error(`Mod-Verzeichnis nicht gefunden: ${modDir}`);
+	}
+	const metas = listModFiles(modDir).filter((name) => MOD_META_PATTERN.test(name));
+	if (metas.length === 0) {
+		throw new Error(`${modDir}: keine Mods/<Name>/meta.lsx gefunden`);
+	}
+	if (metas.length > 1) {
+		throw new Error(`${modDir}: mehrere meta.lsx gefunden (${metas.join(", ")}), ein Pak enthält genau einen Mod`);
+	}
+	const metaPath = metas[0];
+	const mod = parseModMeta(readFileSync(join(modDir, metaPath), "utf8"), modDir, metaPath);
+	const problems: string[] = [];
+	if (!UUID_PATTERN.test(mod.attributes.UUID ?? "")) problems.push(`UUID fehlt oder ungültig: ${mod.attributes.UUID ?? "—"}`);
+	if (!mod.attributes.Name) problems.push("Name fehlt");
+	const folder = MOD_META_PATTERN.exec(metaPath)![1];
+	if (!mod.attributes.Folder) {
+		problems.push("Folder fehlt");
+	} else if (mod.attributes.Folder !== folder) {
+		problems.push(`Folder "${mod.attributes.Folder}" passt nicht zum Verzeichnis Mods/${folder}`);
+	}
+	if (problems.length > 0) {
+		throw new Error(`${metaPath}: ungültiges ModuleInfo – ${problems.join("; ")}`);
+	}
+	return mod;
+}
+
+/**
+ * Baut ein Mod-Pak aus einem Projektordner (Mods/<Name>/meta.lsx, Public/<Name>/…, …).
+ * Dateien auf ".lsf.lsx" werden zu ".lsf" konvertiert, alle anderen unverändert gepackt
+ * (meta.lsx bleibt LSX, wie vom Spiel erwartet). Gibt das geprüfte ModuleInfo zurück.
+ */
+export async function buildModPak(modDir: string, outputPath: string, options?: BuildModPakOptions): Promise<ModInfo> {
+	const mod = validateModProject(modDir);
+	const priority = options?.priority ?? 0;
+	if (!Number.isInteger(priority) || priority < 0 || priority > 0xff) {
+		throw new Error(`Ungültige Priority: ${priority} (0–255)`);
+	}
+	const version = options?.version ?? (options?.game === "bg3" ? PackageVersion.V18 : PackageVersion.V13);
+	const builder = new PackageBuilder({
+		version,
+		priority,
+		compression: options?.compression ?? { method: CompressionMethod.LZ4, level: "default" },
+		compressionRules: options?.compressionRules,
+		jobs: options?.jobs
+	});
+
+	const pool = new WorkerPool(options?.jobs);
+	try {
+		const files = listModFiles(modDir);
+		const contents = await Promise.all(
+			files.map((name) => (BINARY_LSX_SUFFIX.test(name) ? pool.run({ type: "lsx-to-lsf", path: join(modDir, name) }) : readFileSync(join(modDir, name))))
+		);
+		files.forEach((name, i) => builder.add(name.replace(BINARY_LSX_SUFFIX, ".lsf"), contents[i]));
+		await builder.writeToAsync(outputPath, pool);
+	} finally {
+		await pool.close();
+	}
+	return mod;
+}
@@ -5,6 +5,37 @@
 
 export const LSPK_SIGNATURE = 0x4b50534c; // "LSPK"
 
+/** OffsetInFile gelöschter Einträge (untere 48 Bit), nur ab v15 darstellbar */
+export const DELETION_MARKER = 0xbeefdeadbeefn;
+
+/** LSPK-Versionen (LSLib PackageVersion) */
+export enum PackageVersion {
+	/** D:OS 1 */
+	V7 = 7,
+	/** D:OS 1 EE */
+	V9 = 9,
+	/** D:OS 2 */
+	V10 = 10,
+	/** D:OS 2 DE */
+	V13 = 13,
+	/** BG3 Early Access */
+	V15 = 15,
+	/** BG3 Early Access Patch 4 */
+	V16 = 16,
+	/** BG3 Release */
+	V18 = 18
+}
+
+/** Header-Flags (LSLib PackageFlags) */
+export enum PackageFlags {
+	/** Dateien dürfen per Memory-Mapping gelesen werden */
+	AllowMemoryMapping = 0x02,
+	/** Alle Dateien als ein einziger LZ4-Frame komprimiert (nur v13) */
+	Solid = 0x04,
+	/** Package beim Start komplett laden */
+	Preload = 0x08
+}
+
 export enum CompressionMethod {
 	None = 0,
 	Zlib = 1,
@@ -26,6 +57,16 @@ export function getCompressionMethod(flags: number): CompressionMethod {
 	return (flags & 0x0f) as CompressionMethod;
 }
 
+/** Kompressionsstufe (FastCompress/DefaultCompress/MaxCompress) */
+export type CompressionLevel = "fast" | "default" | "max";
+
+/** Flags aus Methode und Stufe zusammensetzen; None ergibt immer 0 */
+export function makeCompressionFlags(method: CompressionMethod, level: CompressionLevel = "default"): number {
+	if (method === CompressionMethod.None) return CompressionFlags.MethodNone;
+	const levelFlag = level === "fast" ? CompressionFlags.FastCompress : level === "max" ? CompressionFlags.MaxCompress : CompressionFlags.DefaultCompress;
+	return method | levelFlag;
+}
+
 export interface PackagedFileInfo {
 	name: string;
 	archivePart: number;
@@ -33,6 +74,10 @@ export interface PackagedFileInfo {
 	sizeOnDisk: number;
 	uncompressedSize: number;
 	flags: number;
+	/** CRC32 der Daten wie auf Disk (v10–v16); 0 = keine Prüfsumme */
+	crc: number;
+	/** LSLib-Löschmarker (OffsetInFile = 0xbeefdeadbeef): Eintrag hat keine Daten */
+	deleted: boolean;
 }
 
 export interface PackageMetadata {
@@ -43,3 +88,12 @@ export interface PackageMetadata {
 	flags: number;
 	numFiles: number;
 }
+
+/** Pfad einer Part-Datei nach LSLib-Schema: Foo.pak → Foo_1.pak, Foo_2.pak, … (Part 0 = Haupt-Archiv) */
+export function getPartPath(mainPath: string, part: number): string {
+	if (part === 0) return mainPath;
+	const dot = mainPath.lastIndexOf(".");
+	const sep = Math.max(mainPath.lastIndexOf("/"), mainPath.lastIndexOf("\\"));
+	if (dot <= sep) return `${mainPath}_${part}`;
+	return `${mainPath.slice(0, dot)}_${part}${mainPath.slice(dot)}`;
+}
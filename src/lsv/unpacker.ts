@@ -5,17 +5,27 @@
  * Based on Norbyte's LSLib: https://github.com/Norbyte/lslib
  */
 
-import { readFileSync } from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import { mkdirSync, writeFileSync } from "node:fs";
-import { dirname, join } from "node:path";
-import { decompress } from "./compression.js";
+import { dirname } from "node:path";
+import { decompress, decompressLZ4Frame } from "./compression.js";
+import { crc32 } from "./hash.js";
+import { entryPath } from "./names.js";
+import { createManifest, detectCompressionFlags, writeManifest } from "./manifest.js";
+import { DELETION_MARKER, PackageFlags, getPartPath } from "./types.js";
 import type { PackagedFileInfo } from "./types.js";
 
 const LSPK_SIGNATURE = 0x4b50534c;
+const FILE_ENTRY_7_SIZE = 272; // 256 + 4+4+4+4 (Name, Offset, SizeDisk, SizeUncomp, Part)
 const FILE_ENTRY_10_SIZE = 280; // 256 + 4+4+4+4+4+4 (Name, Offset, SizeDisk, SizeUncomp, Part, Flags, Crc)
-const FILE_ENTRY_15_SIZE = 304; // 256 + 8+8+8 + 4+4+4+4
+const FILE_ENTRY_15_SIZE = 296; // 256 + 8+8+8 + 4+4+4+4 (Name, Offset, SizeDisk, SizeUncomp, Part, Flags, Crc, Unknown2)
+/** Von älteren Versionen dieses Packers für v13 geschriebenes Layout (FileEntry15 + 8 Byte Padding) */
+const FILE_ENTRY_15_LEGACY_SIZE = 304;
 const FILE_ENTRY_18_SIZE = 272; // 256 + 4+2+1+1+4+4 (Name, Off1, Off2, Part, Flags, SizeDisk, SizeUncomp)
+const LSPK_HEADER_7_SIZE = 21; // Version, DataOffset, NumParts, FileListSize, LittleEndian(1), NumFiles (Pack=1)
+const LSPK_HEADER_10_SIZE = 24; // Signature + Version, DataOffset, FileListSize, NumParts(2), Flags(1), Priority(1), NumFiles
 const COMPRESSION_LZ4 = 2;
+const COMPRESSION_ZLIB_DEFAULT = 0x21;
 
 function readU32(buf: Buffer, offset: number): number {
 	return buf.readUInt32LE(offset);
@@ -31,7 +41,17 @@ function nullTerminatedString(buf: Buffer): string {
 	return buf.subarray(0, end).toString("utf-8");
 }
 
-interface PackageHeader {
+/** Positionierter Lesezugriff auf ein Package – Buffer im Speicher oder File-Handle (LsvArchive) */
+export interface PackageSource {
+	size: number;
+	read(position: number, length: number): Buffer;
+}
+
+export function bufferSource(data: Buffer): PackageSource {
+	return { size: data.length, read: (position, length) => data.subarray(position, position + length) };
+}
+
+export interface PackageHeader {
 	version: number;
 	fileListOffset: number;
 	fileListSize: number;
@@ -39,165 +59,366 @@ interface PackageHeader {
 	numFiles: number;
 	flags?: number;
 	priority?: number;
-	/** true für BG3 (v15/v16/v18) mit Header am Anfang */
+	/** Md5 aus dem Header (16 Bytes, LSLib: MD5 der Inhalte, jedes Byte +1); alles 0 = nicht gesetzt */
+	md5?: Buffer;
+	/** true für Header am Anfang (v7/v9/v10 und BG3 v15/v16/v18) */
 	headerAtStart?: boolean;
+	/** v7–v10: Beginn der Daten in Part 0; Offsets der Einträge sind relativ dazu */
+	dataOffset?: number;
 }
 
-function readHeader(data: Buffer): { header: PackageHeader; headerOffset: number } {
-	const fileSize = data.length;
+function readHeader(src: PackageSource): { header: PackageHeader; headerOffset: number } {
+	const fileSize = src.size;
+	if (fileSize < 8) {
+		throw new Error(`Invalid LSV: file too small (${fileSize} bytes)`);
+	}
+
+	// DOS2 v13: Trailer am Ende = [LSPKHeader13][headerSize4][signature4]
+	const tail = src.read(fileSize - 8, 8);
+	if (readU32(tail, 4) === LSPK_SIGNATURE) {
+		const headerSize = readU32(tail, 0);
+		const headerOffset = fileSize - headerSize;
+		const headerBuf = src.read(headerOffset, 32);
+
+		// LSPKHeader13: Version(4), FileListOffset(4), FileListSize(4), NumParts(2), Flags(1), Priority(1), Md5(16)
+		const header: PackageHeader = {
+			version: readU32(headerBuf, 0),
+			fileListOffset: readU32(headerBuf, 4),
+			fileListSize: readU32(headerBuf, 8),
+			numParts: headerBuf.readUInt16LE(12),
+			numFiles: 0,
+			flags: headerBuf[14],
+			priority: headerBuf[15],
+			md5: Buffer.from(headerBuf.subarray(16, 32))
+		};
+		return { header, headerOffset };
+	}
 
-	// BG3/v10+ format: Signature am Anfang (offset 0)
-	const sigAtStart = readU32(data, 0);
-	if (sigAtStart === LSPK_SIGNATURE && fileSize >= 44) {
+	const data = src.read(0, Math.min(fileSize, 40));
+
+	// v10 und BG3: Signature am Anfang (offset 0)
+	if (readU32(data, 0) === LSPK_SIGNATURE && data.length >= LSPK_HEADER_10_SIZE) {
 		const version = readU32(data, 4);
-		if (version === 15 || version === 16 || version === 18) {
+		if (version === 10) {
+			// LSPKHeader10: Version(4), DataOffset(4), FileListSize(4), NumParts(2), Flags(1), Priority(1), NumFiles(4)
+			return {
+				header: {
+					version,
+					fileListOffset: LSPK_HEADER_10_SIZE,
+					fileListSize: readU32(data, 12),
+					numParts: data.readUInt16LE(16),
+					numFiles: readU32(data, 20),
+					flags: data[18],
+					priority: data[19],
+					headerAtStart: true,
+					dataOffset: readU32(data, 8)
+				},
+				headerOffset: 0
+			};
+		}
+		if ((version === 15 && data.length >= 38) || ((version === 16 || version === 18) && data.length >= 40)) {
 			// LSPKHeader16: Version(4), FileListOffset(8), FileListSize(4), Flags(1), Priority(1), Md5(16), NumParts(2)
-			const fileListOffset = Number(readU64(data, 8));
-			const fileListSize = readU32(data, 16);
-			const numParts = data.readUInt16LE(38);
-
+			// LSPKHeader15 hat kein NumParts-Feld (immer 1 Part)
 			return {
 				header: {
 					version,
-					fileListOffset,
-					fileListSize,
-					numParts,
+					fileListOffset: Number(readU64(data, 8)),
+					fileListSize: readU32(data, 16),
+					numParts: version === 15 ? 1 : data.readUInt16LE(38),
 					numFiles: 0,
+					flags: data[20],
+					priority: data[21],
+					md5: Buffer.from(data.subarray(22, 38)),
 					headerAtStart: true
 				},
 				headerOffset: 0
 			};
 		}
+		throw new Error(`Unsupported LSPK version ${version}`);
 	}
 
-	// DOS2 v13+ format: Trailer am Ende = [LSPKHeader32][headerSize4][signature4]
-	const headerSize = readU32(data, fileSize - 8);
-	const signature = readU32(data, fileSize - 4);
-
-	if (signature !== LSPK_SIGNATURE) {
-		throw new Error(`Invalid LSV signature: expected LSPK (0x${LSPK_SIGNATURE.toString(16)}), got 0x${signature.toString(16)}`);
+	// DOS1 v7/v9: keine Signature, LSPKHeader7 direkt am Anfang
+	const legacyVersion = readU32(data, 0);
+	if ((legacyVersion === 7 || legacyVersion === 9) && data.length >= LSPK_HEADER_7_SIZE) {
+		// LSPKHeader7: Version(4), DataOffset(4), NumParts(4), FileListSize(4), LittleEndian(1), NumFiles(4)
+		return {
+			header: {
+				version: legacyVersion,
+				fileListOffset: LSPK_HEADER_7_SIZE,
+				fileListSize: readU32(data, 12),
+				numParts: readU32(data, 8),
+				numFiles: data.readUInt32LE(17),
+				headerAtStart: true,
+				dataOffset: readU32(data, 4)
+			},
+			headerOffset: 0
+		};
 	}
 
-	const headerOffset = fileSize - headerSize;
-	const headerBuf = data.subarray(headerOffset, headerOffset + 32);
-
-	const header: PackageHeader = {
-		version: readU32(headerBuf, 0),
-		fileListOffset: readU32(headerBuf, 4),
-		fileListSize: readU32(headerBuf, 8),
-		numParts: headerBuf.readUInt16LE(10),
-		numFiles: 0,
-		flags: headerBuf[12],
-		priority: headerBuf[13]
-	};
+	throw new Error(`Invalid LSV signature: expected LSPK (0x${LSPK_SIGNATURE.toString(16)}), got 0x${readU32(tail, 4).toString(16)}`);
+}
+
+/** Größe eines File-List-Eintrags je Version (LSLib FileEntry7/10/15/18) */
+function fileEntrySize(version: number): number {
+	if (version <= 9) return FILE_ENTRY_7_SIZE;
+	if (version <= 13) return FILE_ENTRY_10_SIZE;
+	if (version <= 16) return FILE_ENTRY_15_SIZE;
+	return FILE_ENTRY_18_SIZE;
+}
 
-	if (header.version >= 7 && header.version <= 10 && headerOffset === 0) {
-		header.numFiles = readU32(headerBuf, header.version <= 9 ? 16 : 20);
+/** FileEntry7 und FileEntry18 sind gleich groß – Layout daher über die Version wählen */
+function parseFileEntry(entry: Buffer, version: number, entrySize: number): PackagedFileInfo {
+	const name = nullTerminatedString(entry.subarray(0, 256));
+
+	let offsetInFile: bigint;
+	let sizeOnDisk: number;
+	let uncompressedSize: number;
+	let archivePart: number;
+	let flags: number;
+	let crc = 0;
+
+	if (version >= 18) {
+		// FileEntry18: Name(256), Off1(4), Off2(2), Part(1), Flags(1), SizeDisk(4), SizeUncomp(4)
+		offsetInFile = BigInt(readU32(entry, 256)) | (BigInt(entry.readUInt16LE(260)) << 32n);
+		archivePart = entry[262];
+		flags = entry[263];
+		sizeOnDisk = readU32(entry, 264);
+		uncompressedSize = readU32(entry, 268);
+	} else if (version >= 15 || entrySize === FILE_ENTRY_15_LEGACY_SIZE) {
+		offsetInFile = readU64(entry, 256);
+		sizeOnDisk = Number(readU64(entry, 264));
+		uncompressedSize = Number(readU64(entry, 272));
+		archivePart = readU32(entry, 280);
+		flags = readU32(entry, 284);
+		crc = readU32(entry, 288);
+	} else if (version >= 10) {
+		offsetInFile = BigInt(readU32(entry, 256));
+		sizeOnDisk = readU32(entry, 260);
+		uncompressedSize = readU32(entry, 264);
+		archivePart = readU32(entry, 268);
+		flags = readU32(entry, 272);
+		crc = readU32(entry, 276);
+	} else {
+		// FileEntry7: keine Flags – UncompressedSize > 0 bedeutet Zlib (LSLib)
+		offsetInFile = BigInt(readU32(entry, 256));
+		sizeOnDisk = readU32(entry, 260);
+		uncompressedSize = readU32(entry, 264);
+		archivePart = readU32(entry, 268);
+		flags = uncompressedSize > 0 ? COMPRESSION_ZLIB_DEFAULT : 0;
 	}
 
-	return { header, headerOffset };
+	return {
+		name,
+		archivePart,
+		offsetInFile,
+		sizeOnDisk,
+		uncompressedSize: uncompressedSize || sizeOnDisk,
+		flags,
+		crc,
+		deleted: isDeletionMarker(offsetInFile)
+	};
 }
 
-function readFileListV13(data: Buffer, header: PackageHeader): PackagedFileInfo[] {
+function readFileList(src: PackageSource, header: PackageHeader): PackagedFileInfo[] {
 	const offset = header.fileListOffset;
-	if (offset >= data.length) {
+	if (offset >= src.size) {
 		throw new Error(
-			`Invalid file list offset ${offset} (file size: ${data.length}). ` +
+			`Invalid file list offset ${offset} (file size: ${src.size}). ` +
 				`Header: version=${header.version} fileListOffset=${header.fileListOffset} fileListSize=${header.fileListSize}`
 		);
 	}
-	const numFiles = readU32(data, offset);
-	const compressedSize = header.version > 13 ? readU32(data, offset + 4) : header.fileListSize - 4;
-
-	const headerSize = header.version > 13 ? 8 : 4;
-	const compressed = data.subarray(offset + headerSize, offset + headerSize + compressedSize);
 
-	// BG3 v18: FileEntry18 (272 bytes). DOS2 v13: FileEntry10/15
-	const expSize = header.version === 18 ? numFiles * FILE_ENTRY_18_SIZE : numFiles * FILE_ENTRY_15_SIZE;
-	const decompressed = decompress(compressed, expSize, COMPRESSION_LZ4);
-
-	const entrySize = header.version === 18 ? FILE_ENTRY_18_SIZE : decompressed.length >= numFiles * FILE_ENTRY_15_SIZE ? FILE_ENTRY_15_SIZE : FILE_ENTRY_10_SIZE;
+	let numFiles: number;
+	let list: Buffer;
+	let entrySize = fileEntrySize(header.version);
+
+	if (header.version <= 10) {
+		// v7–v10: unkomprimierte File-List direkt hinter dem Header
+		numFiles = header.numFiles;
+		list = src.read(offset, numFiles * entrySize);
+	} else {
+		// v13+: [NumFiles(4)][CompressedSize(4), ab v15][LZ4-Block]
+		const listHeader = src.read(offset, 8);
+		numFiles = readU32(listHeader, 0);
+		const compressedSize = header.version > 13 ? readU32(listHeader, 4) : header.fileListSize - 4;
+
+		const headerSize = header.version > 13 ? 8 : 4;
+		const compressed = src.read(offset + headerSize, compressedSize);
+		const expSize = numFiles * (header.version === 13 ? FILE_ENTRY_15_LEGACY_SIZE : entrySize);
+		list = decompress(compressed, expSize, COMPRESSION_LZ4);
+		if (header.version === 13 && numFiles > 0 && list.length === numFiles * FILE_ENTRY_15_LEGACY_SIZE) {
+			entrySize = FILE_ENTRY_15_LEGACY_SIZE;
+		}
+	}
 
-	if (decompressed.length < numFiles * entrySize) {
-		throw new Error(`Decompressed file list too small: need ${numFiles * entrySize}, got ${decompressed.length}`);
+	if (list.length < numFiles * entrySize) {
+		throw new Error(`File list too small: need ${numFiles * entrySize}, got ${list.length}`);
 	}
 
 	const files: PackagedFileInfo[] = [];
 	for (let i = 0; i < numFiles; i++) {
 		const entryOffset = i * entrySize;
-		const entry = decompressed.subarray(entryOffset, entryOffset + entrySize);
-
-		const name = nullTerminatedString(entry.subarray(0, 256));
-
-		let offsetInFile: bigint;
-		let sizeOnDisk: number;
-		let uncompressedSize: number;
-		let archivePart: number;
-		let flags: number;
-
-		if (entrySize === FILE_ENTRY_18_SIZE) {
-			// FileEntry18: Name(256), Off1(4), Off2(2), Part(1), Flags(1), SizeDisk(4), SizeUncomp(4)
-			offsetInFile = BigInt(readU32(entry, 256)) | (BigInt(entry.readUInt16LE(260)) << 32n);
-			archivePart = entry[262];
-			flags = entry[263];
-			sizeOnDisk = readU32(entry, 264);
-			uncompressedSize = readU32(entry, 268);
-		} else if (entrySize === FILE_ENTRY_15_SIZE) {
-			offsetInFile = readU64(entry, 256);
-			sizeOnDisk = Number(readU64(entry, 264));
-			uncompressedSize = Number(readU64(entry, 272));
-			archivePart = readU32(entry, entrySize - 12);
-			flags = readU32(entry, entrySize - 8);
-		} else {
-			offsetInFile = BigInt(readU32(entry, 256));
-			sizeOnDisk = readU32(entry, 260);
-			uncompressedSize = readU32(entry, 264);
-			archivePart = readU32(entry, entrySize - 12);
-			flags = readU32(entry, entrySize - 8);
+		const file = parseFileEntry(list.subarray(entryOffset, entryOffset + entrySize), header.version, entrySize);
+		// v7–v10: Offsets in Part 0 relativ zum Datenbereich (LSLib addiert DataOffset beim Lesen)
+		if (header.dataOffset && file.archivePart === 0 && !file.deleted) {
+			file.offsetInFile += BigInt(header.dataOffset);
 		}
-
-		files.push({
-			name,
-			archivePart,
-			offsetInFile,
-			sizeOnDisk,
-			uncompressedSize: uncompressedSize || sizeOnDisk,
-			flags
-		});
+		files.push(file);
 	}
 
 	return files;
 }
 
-function extractFile(data: Buffer, file: PackagedFileInfo, dataOffset: number): Buffer {
-	const offset = Number(file.offsetInFile);
-	const size = file.sizeOnDisk;
-	const uncompressedSize = file.uncompressedSize;
+/** Header und File-List lesen, ohne die Dateidaten anzufassen */
+export function readPackageIndex(src: PackageSource): { header: PackageHeader; files: PackagedFileInfo[] } {
+	const { header } = readHeader(src);
+	const files = readFileList(src, header);
+	return { header, files };
+}
+
+/**
+ * Solid-Packages (PackageFlags.Solid, LSLib v13): alle Einträge bilden zusammen einen LZ4-Frame ab Offset 0,
+ * jeder Eintrag belegt einen lückenlosen Abschnitt davon. Liefert den entpackten Datenbereich und Einträge
+ * mit Offsets darin (Flags 0, CRC 0), oder undefined für normale Packages.
+ */
+export function unpackSolid(src: PackageSource, header: PackageHeader, files: PackagedFileInfo[]): { data: Buffer; files: PackagedFileInfo[] } | undefined {
+	const stored = files.filter((file) => !file.deleted);
+	if (!((header.flags ?? 0) & PackageFlags.Solid) || stored.length === 0) {
+		return undefined;
+	}
+	if (stored.some((file) => file.archivePart !== 0)) {
+		throw new Error("Solid-Package mit mehreren Parts wird nicht unterstützt");
+	}
+	const first = Math.min(...stored.map((file) => Number(file.offsetInFile)));
+	const last = Math.max(...stored.map((file) => Number(file.offsetInFile) + file.sizeOnDisk));
+	const frame = src.read(0, last);
+	if (frame.length < last) {
+		throw new Error(`Solid-Package abgeschnitten: Frame endet bei ${last}, Datei hat ${src.size} Bytes`);
+	}
+	const data = decompressLZ4Frame(frame);
+
+	let offset = first;
+	let uncompressedOffset = 0;
+	const unpacked = files.map((file) => {
+		if (file.deleted) return file;
+		if (Number(file.offsetInFile) !== offset) {
+			throw new Error(`Solid-Package inkonsistent: ${file.name} liegt bei ${file.offsetInFile}, erwartet ${offset}`);
+		}
+		offset += file.sizeOnDisk;
+		const entry: PackagedFileInfo = { ...file, offsetInFile: BigInt(uncompressedOffset), sizeOnDisk: file.uncompressedSize, flags: 0, crc: 0 };
+		uncompressedOffset += file.uncompressedSize;
+		return entry;
+	});
+	if (data.length !== uncompressedOffset) {
+		throw new Error(`Solid-Package inkonsistent: Frame ergibt ${data.length} Bytes, Einträge ${uncompressedOffset}`);
+	}
+	return { data, files: unpacked };
+}
 
-	// Deletion marker (from LSLib)
-	if ((file.offsetInFile & 0x0000ffffffffffffn) === 0xbeefdeadbeefn) {
+/** Deletion marker (from LSLib): Patch-Paks entfernen damit Dateien aus Paks niedrigerer Priorität */
+function isDeletionMarker(offsetInFile: bigint): boolean {
+	return (offsetInFile & 0x0000ffffffffffffn) === DELETION_MARKER;
+}
+
+export function assertNotDeleted(file: PackagedFileInfo): void {
+	if (file.deleted) {
 		throw new Error(`File ${file.name} is marked as deleted`);
 	}
+}
 
-	if (file.archivePart === 0) {
-		const actualOffset = offset + dataOffset;
-		if (actualOffset + size > data.length) {
-			throw new Error(`File ${file.name}: offset ${actualOffset} + size ${size} exceeds file length ${data.length}`);
-		}
-		const chunk = data.subarray(actualOffset, actualOffset + size);
+/** Beschädigter oder nicht lesbarer Eintrag */
+export interface EntryIssue {
+	name: string;
+	/**
+	 * deleted = LSLib-Löschmarker, truncated = Daten oder Part-Datei fehlen,
+	 * corrupt = CRC stimmt nicht oder Dekompression schlägt fehl
+	 */
+	kind: "deleted" | "truncated" | "corrupt";
+	archivePart: number;
+	message: string;
+	expectedCrc?: number;
+	actualCrc?: number;
+}
 
-		if (file.flags === 0 || uncompressedSize === 0) {
-			return chunk;
+/** Meldung im selben Format wie checkFileEntry (auch für createReadStream) */
+export function entryIssue(file: PackagedFileInfo, kind: EntryIssue["kind"], message: string, extra?: Partial<EntryIssue>): EntryIssue {
+	return { name: file.name, kind, archivePart: file.archivePart, message: `File ${file.name}: ${message}`, ...extra };
+}
+
+/**
+ * Eintrag prüfen und dekomprimieren. `chunk` sind die Rohdaten wie auf Disk
+ * (ggf. kürzer als sizeOnDisk), undefined wenn die Part-Datei fehlt.
+ */
+export function checkFileEntry(file: PackagedFileInfo, chunk: Buffer | undefined): { content: Buffer; issue?: undefined } | { content?: undefined; issue: EntryIssue } {
+	const issue = (kind: EntryIssue["kind"], message: string, extra?: Partial<EntryIssue>) => ({ issue: entryIssue(file, kind, message, extra) });
+	if (file.deleted) {
+		return issue("deleted", "marked as deleted");
+	}
+	if (!chunk) {
+		return issue("truncated", `archive part ${file.archivePart} not found`);
+	}
+	if (chunk.length < file.sizeOnDisk) {
+		return issue("truncated", `expected ${file.sizeOnDisk} bytes, only ${chunk.length} available in part ${file.archivePart}`);
+	}
+	// LSLib: CRC32 über die Daten wie auf Disk, 0 = keine Prüfsumme (v18)
+	if (file.crc) {
+		const actualCrc = crc32(chunk);
+		if (actualCrc !== file.crc) {
+			return issue("corrupt", `CRC mismatch (expected 0x${file.crc.toString(16)}, got 0x${actualCrc.toString(16)})`, { expectedCrc: file.crc, actualCrc });
 		}
-		return decompress(chunk, uncompressedSize, file.flags);
 	}
+	let content: Buffer;
+	try {
+		content = decodeFileContent(file, chunk);
+	} catch (err) {
+		return issue("corrupt", `decompression failed (${err instanceof Error ? err.message : err})`);
+	}
+	if (content.length !== file.uncompressedSize) {
+		return issue("corrupt", `decompressed to ${content.length} bytes, expected ${file.uncompressedSize}`);
+	}
+	return { content };
+}
 
-	throw new Error(`Multi-part packages (part ${file.archivePart}) not yet supported`);
+/** Rohdaten eines Eintrags (wie auf Disk) in den unkomprimierten Inhalt umwandeln */
+export function decodeFileContent(file: PackagedFileInfo, chunk: Buffer): Buffer {
+	if (file.flags === 0 || file.uncompressedSize === 0) {
+		return chunk;
+	}
+	return decompress(chunk, file.uncompressedSize, file.flags);
 }
 
-/** Extrahiert den Inhalt einer einzelnen Datei aus dem Package (für Konvertierung). */
-export function extractFileContent(data: Buffer, file: PackagedFileInfo, dataOffset: number): Buffer {
-	return extractFile(data, file, dataOffset);
+function checkedExtract(data: Buffer, file: PackagedFileInfo, dataOffset: number, parts?: (Buffer | undefined)[]): ReturnType<typeof checkFileEntry> {
+	const offset = Number(file.offsetInFile);
+	const size = file.sizeOnDisk;
+
+	// Part 0 liegt im Haupt-Archiv (mit dataOffset), weitere Parts in Foo_N.lsv ab Offset 0
+	const source = file.archivePart === 0 ? data : parts?.[file.archivePart];
+	const actualOffset = file.archivePart === 0 ? offset + dataOffset : offset;
+	return checkFileEntry(file, source?.subarray(actualOffset, actualOffset + size));
+}
+
+function extractFile(data: Buffer, file: PackagedFileInfo, dataOffset: number, parts?: (Buffer | undefined)[]): Buffer {
+	const { content, issue } = checkedExtract(data, file, dataOffset, parts);
+	if (issue) throw new Error(issue.message);
+	return content;
+}
+
+/**
+ * Extrahiert den Inhalt einer einzelnen Datei aus dem Package (für Konvertierung).
+ * `parts` enthält die Daten der Part-Dateien (Index = archivePart) bei Multi-Part-Packages.
+ */
+export function extractFileContent(data: Buffer, file: PackagedFileInfo, dataOffset: number, parts?: (Buffer | undefined)[]): Buffer {
+	return extractFile(data, file, dataOffset, parts);
+}
+
+/** Part-Dateien (Foo_1.lsv, Foo_2.lsv, …) neben dem Haupt-Archiv laden; fehlende Parts bleiben undefined */
+function readParts(inputPath: string, data: Buffer, numParts: number): (Buffer | undefined)[] {
+	const parts: (Buffer | undefined)[] = [data];
+	for (let part = 1; part < numParts; part++) {
+		const partPath = getPartPath(inputPath, part);
+		parts.push(existsSync(partPath) ? readFileSync(partPath) : undefined);
+	}
+	return parts;
 }
 
 /**
@@ -207,63 +428,90 @@ export function readPackage(inputPath: string): {
 	files: PackagedFileInfo[];
 	data: Buffer;
 	header: PackageHeader;
+	/** Daten aller Parts, Index = archivePart (parts[0] === data) */
+	parts: (Buffer | undefined)[];
 } {
 	const data = readFileSync(inputPath);
-	const { header } = readHeader(data);
-
-	const files = readFileListV13(data, header);
-	return { files, data, header };
+	const { header, files } = readPackageIndex(bufferSource(data));
+	const solid = unpackSolid(bufferSource(data), header, files);
+	if (solid) {
+		return { files: solid.files, data: solid.data, header, parts: [solid.data] };
+	}
+	const parts = readParts(inputPath, data, header.numParts);
+	return { files, data, header, parts };
 }
 
 export interface UnpackOptions {
 	filter?: (name: string) => boolean;
 	/** Manifest für Roundtrip schreiben (default: true) */
 	manifest?: boolean;
+	/** Beschädigte Einträge überspringen und im Report sammeln statt abzubrechen (default: false) */
+	continueOnError?: boolean;
+	/** Einträge mit Löschmarker als Fehler behandeln statt sie zu überspringen (default: false) */
+	failOnDeleted?: boolean;
+	/** v13: Kompressionsstufe je Eintrag fürs Manifest ermitteln (detectCompressionFlags, default: false) */
+	detectLevels?: boolean;
 }
 
-const MANIFEST_NAME = "__manifest__.json";
+export interface UnpackReport {
+	extracted: string[];
+	/** Übersprungene Einträge (nur mit continueOnError, sonst wird beim ersten Problem abgebrochen) */
+	issues: EntryIssue[];
+	/** Einträge mit Löschmarker (werden nicht extrahiert, aber ins Manifest übernommen) */
+	deleted: string[];
+}
 
 /**
  * Unpack LSV savegame file to directory
  * Extracts all LSF/LSB files which can then be converted to LSX
- * Schreibt __manifest__.json mit Dateireihenfolge für byte-identischen Pack-Roundtrip (LSLib-kompatibel)
+ * Schreibt __manifest__.json (v2) mit Reihenfolge, Kompression, Parts und Md5 für byte-identischen Pack-Roundtrip
  */
 export function unpackLsv(inputPath: string, outputDir: string, options?: UnpackOptions): string[] {
-	const { files, data, header } = readPackage(inputPath);
-	const dataOffset = 0; // v13 format
-	const writeManifest = options?.manifest !== false;
+	return unpackLsvWithReport(inputPath, outputDir, options).extracted;
+}
+
+/** Wie unpackLsv, liefert zusätzlich die Liste beschädigter, abgeschnittener oder gelöschter Einträge */
+export function unpackLsvWithReport(inputPath: string, outputDir: string, options?: UnpackOptions): UnpackReport {
+	const { files, data, header, parts } = readPackage(inputPath);
+	const dataOffset = 0; // Offsets bereits absolut (v7–v10: DataOffset beim Lesen addiert)
+	const withManifest = options?.manifest !== false;
 
 	const extracted: string[] = [];
-	const manifestFiles: string[] = [];
+	const issues: EntryIssue[] = [];
+	const deleted: string[] = [];
+	/** Entpackte Einträge und Löschmarker in Package-Reihenfolge */
+	const manifestFiles: PackagedFileInfo[] = [];
+
+	// Alle Namen vor dem ersten Schreiben prüfen, damit ein präpariertes Package nichts halb entpackt
+	const selected = files.filter((file) => !options?.filter || options.filter(file.name));
+	for (const file of selected) entryPath(outputDir, file.name);
+
+	for (const file of selected) {
+		if (file.deleted && !options?.failOnDeleted) {
+			deleted.push(file.name);
+			manifestFiles.push(file);
+			continue;
+		}
 
-	for (const file of files) {
-		if (options?.filter && !options.filter(file.name)) {
+		const { content, issue } = checkedExtract(data, file, dataOffset, parts);
+		if (issue) {
+			if (!options?.continueOnError) throw new Error(issue.message);
+			issues.push(issue);
 			continue;
 		}
 
-		const outPath = join(outputDir, file.name);
+		const outPath = entryPath(outputDir, file.name);
 		const outDir = dirname(outPath);
 		mkdirSync(outDir, { recursive: true });
-
-		const content = extractFile(data, file, dataOffset);
 		writeFileSync(outPath, content, { flag: "w" });
 		extracted.push(outPath);
-		manifestFiles.push(file.name);
+		manifestFiles.push(withManifest && options?.detectLevels ? { ...file, flags: detectCompressionFlags(file, content, header.version) } : file);
 	}
 
-	if (writeManifest && manifestFiles.length > 0) {
-		const manifestPath = join(outputDir, MANIFEST_NAME);
-		const manifest: { version: number; flags?: number; priority?: number; files: { name: string; flags: number }[] } = {
-			version: header.version,
-			files: manifestFiles.map((name) => {
-				const f = files.find((x) => x.name === name);
-				return { name, flags: f?.flags ?? 33 };
-			})
-		};
-		if (header.flags !== undefined) manifest.flags = header.flags;
-		if (header.priority !== undefined) manifest.priority = header.priority;
-		writeFileSync(manifestPath, JSON.stringify(manifest, null, 0), "utf8");
+	if (withManifest && manifestFiles.length > 0) {
+		mkdirSync(outputDir, { recursive: true });
+		writeManifest(outputDir, createManifest(header, manifestFiles, manifestFiles.length === files.length));
 	}
 
-	return extracted;
+	return { extracted, issues, deleted };
 }
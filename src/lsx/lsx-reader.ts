@@ -1,6 +1,6 @@
 import { readFileSync } from "node:fs";
 import { XMLParser } from "fast-xml-parser";
-import { LSFNode, LSFAttribute, NodeAttributeType, TranslatedFSStringValue } from "../lsf/types.js";
+import { AttributeValue, LSFNode, LSFAttribute, NodeAttributeType, TranslatedFSStringValue, parseAttributeTypeName, toAttributeValue } from "../lsf/types.js";
 
 export interface LsxVersion {
 	major: number;
@@ -56,9 +56,15 @@ function parseType(typeStr: string | number): NodeAttributeType {
 		Double: NodeAttributeType.Double,
 		Long: NodeAttributeType.Long,
 		Int64: NodeAttributeType.Int64,
-		Int8: NodeAttributeType.Int8
+		Int8: NodeAttributeType.Int8,
+		Mat2: NodeAttributeType.Mat2,
+		Mat3: NodeAttributeType.Mat3,
+		Mat3x4: NodeAttributeType.Mat3x4,
+		Mat4x3: NodeAttributeType.Mat4x3,
+		Mat4: NodeAttributeType.Mat4
 	};
-	return nameMap[String(typeStr)] ?? NodeAttributeType.String;
+	// Sonst LSLib-Namen (BG3-LSX: "guid", "fvec3", "mat4x4", …)
+	return nameMap[String(typeStr)] ?? parseAttributeTypeName(String(typeStr)) ?? NodeAttributeType.String;
 }
 
 function parseTranslatedFSStringArguments(argsEl: any): TranslatedFSStringValue["arguments"] {
@@ -88,28 +94,14 @@ function parseTranslatedFSStringArguments(argsEl: any): TranslatedFSStringValue[
 	return result.length > 0 ? result : undefined;
 }
 
-function parseAttributeValue(type: NodeAttributeType, valueStr: string, handle?: string, el?: any): any {
+function parseAttributeValue(type: NodeAttributeType, valueStr: string, handle?: string, el?: any): AttributeValue {
 	if (valueStr === undefined) valueStr = "";
 	if (type === NodeAttributeType.TranslatedString || type === NodeAttributeType.TranslatedFSString) {
 		const args = type === NodeAttributeType.TranslatedFSString && el ? parseTranslatedFSStringArguments(el.arguments) : undefined;
 		return { value: valueStr, handle: handle ?? "", ...(args && args.length > 0 ? { arguments: args } : {}) };
 	}
-	if (type === NodeAttributeType.Bool) {
-		return valueStr === "True" || valueStr === "true" || valueStr === "1";
-	}
-	if (type === NodeAttributeType.Byte || type === NodeAttributeType.Int8) {
-		return parseInt(valueStr, 10) || 0;
-	}
-	if (type === NodeAttributeType.Short || type === NodeAttributeType.UShort) {
-		return parseInt(valueStr, 10) || 0;
-	}
-	if (type === NodeAttributeType.Int || type === NodeAttributeType.UInt) {
-		return parseInt(valueStr, 10) || 0;
-	}
-	if (type === NodeAttributeType.Float || type === NodeAttributeType.Double) {
-		return parseFloat(valueStr) || 0;
-	}
-	return valueStr;
+	// Vektoren, 64-Bit-Werte, Base64 usw. aus dem LSX-Text
+	return toAttributeValue(type, valueStr);
 }
 
 function parseAttribute(el: any): LSFAttribute | null {
@@ -118,11 +110,7 @@ function parseAttribute(el: any): LSFAttribute | null {
 	const type = parseType(a.type ?? "20");
 	const valueStr = a.value ?? "";
 	const handle = a.handle;
-	return {
-		name: a.id,
-		type,
-		value: parseAttributeValue(type, valueStr, handle, el)
-	};
+	return { name: a.id, type, value: parseAttributeValue(type, valueStr, handle, el) } as LSFAttribute;
 }
 
 function parseNode(el: any): LSFNode | null {
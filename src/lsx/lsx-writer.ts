@@ -1,4 +1,4 @@
-import { LSFNode, LSFAttribute, NodeAttributeType, TranslatedFSStringValue } from "../lsf/types.js";
+import { LSFNode, LSFAttribute, NodeAttributeType, TranslatedFSStringValue, createAttribute, toLegacyValue } from "../lsf/types.js";
 
 export interface LsxVersion {
 	major: number;
@@ -94,53 +94,64 @@ function serializeTranslatedFSStringArgs(args: NonNullable<TranslatedFSStringVal
 	return xml;
 }
 
-function serializeAttribute(name: string, attr: LSFAttribute, spacing: string, opts: LsxOptions, eol: string = "\n"): string {
+function serializeAttribute(name: string, attribute: LSFAttribute, spacing: string, opts: LsxOptions, eol: string = "\n"): string {
+	const attr = createAttribute(name, attribute.type, attribute.value);
 	const typeStr = opts.numericTypes ? String(attr.type) : (NodeAttributeType[attr.type] ?? "Unknown");
 	const inner = spacing + "\t";
 	let valueStr: string;
-	let extraAttrs = "";
 
-	if (attr.type === NodeAttributeType.TranslatedString || attr.type === NodeAttributeType.TranslatedFSString) {
-		const ts = attr.value as TranslatedFSStringValue | { value: string; handle: string };
-		if (ts && typeof ts === "object" && "handle" in ts) {
-			valueStr = ts.value || "";
-			const args = (ts as TranslatedFSStringValue).arguments;
+	switch (attr.type) {
+		case NodeAttributeType.TranslatedString:
+		case NodeAttributeType.TranslatedFSString: {
+			const ts = attr.value;
+			const args = attr.type === NodeAttributeType.TranslatedFSString ? attr.value.arguments : undefined;
 			const handleAttr = ts.handle ? ` handle="${escapeXml(ts.handle)}"` : "";
 			const isFS = attr.type === NodeAttributeType.TranslatedFSString;
-			const argsCount = args?.length ?? 0;
-			const argsAttr = isFS ? ` arguments="${argsCount}"` : "";
+			const argsAttr = isFS ? ` arguments="${args?.length ?? 0}"` : "";
 			// LSLib: TranslatedString (28) = handle, value | TranslatedFSString (33) = value, handle, arguments
-			const valuePart = ` value="${escapeXml(valueStr)}"`;
+			const valuePart = ` value="${escapeXml(ts.value)}"`;
+			const attrs = isFS ? valuePart + handleAttr + argsAttr : handleAttr + valuePart;
 			if (args && args.length > 0) {
 				const argsXml = serializeTranslatedFSStringArgs(args, inner + "\t", eol);
-				const attrs = isFS ? valuePart + handleAttr + argsAttr : handleAttr + valuePart;
 				return `${spacing}<attribute id="${escapeXml(name)}" type="${typeStr}"${attrs}>${eol}${inner}<arguments>${eol}${argsXml}${inner}</arguments>${eol}${spacing}</attribute>${eol}`;
 			}
-			const attrs = isFS ? valuePart + handleAttr + argsAttr : handleAttr + valuePart;
 			return `${spacing}<attribute id="${escapeXml(name)}" type="${typeStr}"${attrs} />${eol}`;
-		} else {
-			valueStr = String(attr.value);
 		}
-		return `${spacing}<attribute id="${escapeXml(name)}" type="${typeStr}" value="${escapeXml(valueStr)}"${extraAttrs} />${eol}`;
-	} else if (attr.type === NodeAttributeType.Bool) {
-		valueStr = attr.value ? "True" : "False";
-	} else if ((attr.type === NodeAttributeType.Float || attr.type === NodeAttributeType.Double) && typeof attr.value === "number" && Number.isFinite(attr.value)) {
-		valueStr = formatFloat(attr.value);
-	} else if (attr.type === NodeAttributeType.UUID && typeof attr.value === "string" && opts.lslibMeta?.includes("bswap_guids")) {
-		valueStr = formatUuidForLsx(attr.value);
-	} else if (
-		(attr.type === NodeAttributeType.Vec2 || attr.type === NodeAttributeType.Vec3 || attr.type === NodeAttributeType.Vec4) &&
-		typeof attr.value === "string"
-	) {
-		valueStr = formatVecForLsx(attr.value);
-	} else if (attr.type === NodeAttributeType.Byte && typeof attr.value === "number") {
-		// LSLib: Byte (type 1) als unsigned 0–255 ausgeben (z.B. Color)
-		valueStr = String((attr.value >>> 0) & 0xff);
-	} else {
-		valueStr = String(attr.value);
+		case NodeAttributeType.Bool:
+			valueStr = attr.value ? "True" : "False";
+			break;
+		case NodeAttributeType.Float:
+			valueStr = formatFloat(attr.value);
+			break;
+		case NodeAttributeType.Double:
+			valueStr = formatDouble(attr.value);
+			break;
+		case NodeAttributeType.UUID:
+			valueStr = opts.lslibMeta?.includes("bswap_guids") ? formatUuidForLsx(attr.value) : attr.value;
+			break;
+		case NodeAttributeType.Vec2:
+		case NodeAttributeType.Vec3:
+		case NodeAttributeType.Vec4:
+			// Jede Komponente mit formatFloat (LSLib C# float.ToString)
+			valueStr = attr.value.map((n) => formatFloat(n)).join(" ");
+			break;
+		case NodeAttributeType.Mat2:
+		case NodeAttributeType.Mat3:
+		case NodeAttributeType.Mat3x4:
+		case NodeAttributeType.Mat4x3:
+		case NodeAttributeType.Mat4:
+			valueStr = formatMatrixForLsx(attr.value);
+			break;
+		case NodeAttributeType.Byte:
+			// LSLib: Byte (type 1) als unsigned 0–255 ausgeben (z.B. Color)
+			valueStr = String((attr.value >>> 0) & 0xff);
+			break;
+		default:
+			// IVec als "1 2 3", 64-Bit als Dezimalzahl, ScratchBuffer als Base64
+			valueStr = String(toLegacyValue(attr));
 	}
 
-	return `${spacing}<attribute id="${escapeXml(name)}" type="${typeStr}" value="${escapeXml(valueStr)}"${extraAttrs} />${eol}`;
+	return `${spacing}<attribute id="${escapeXml(name)}" type="${typeStr}" value="${escapeXml(valueStr)}" />${eol}`;
 }
 
 const _f32 = new Float32Array(1);
@@ -177,7 +188,7 @@ function roundHalfToEven(n: number): number {
 }
 
 /** LSLib-kompatibel: Minimum Dezimalstellen für Float32-Roundtrip (C# float.ToString mit Round half to even) */
-function formatFloat(n: number): string {
+export function formatFloat(n: number): string {
 	if (!Number.isFinite(n)) return String(n);
 	const v = toFloat32(n);
 	if (v === 0) return "0";
@@ -205,6 +216,25 @@ function formatFloat(n: number): string {
 	return (roundHalfToEven(scaled) / 1e6).toFixed(6).replace(/0+$/, "").replace(/\.$/, "");
 }
 
+/** LSLib-kompatibel: Double mit voller Genauigkeit (C# double.ToString, Scientific ab Exponent ≤ -5 oder ≥ 15) */
+export function formatDouble(n: number): string {
+	if (!Number.isFinite(n)) return String(n);
+	if (n === 0) return Object.is(n, -0) ? "-0" : "0";
+	// Kürzeste Darstellung, die exakt zurückgelesen wird
+	const [mantissa, exponent] = n.toExponential().split("e");
+	const exp = Number(exponent);
+	if (exp < -4 || exp >= 15) {
+		return `${mantissa}E${exp < 0 ? "-" : "+"}${String(Math.abs(exp)).padStart(2, "0")}`;
+	}
+	const negative = mantissa.startsWith("-");
+	const digits = mantissa.replace(/^-/, "").replace(".", "");
+	let text: string;
+	if (exp < 0) text = "0." + "0".repeat(-exp - 1) + digits;
+	else if (digits.length > exp + 1) text = digits.slice(0, exp + 1) + "." + digits.slice(exp + 1);
+	else text = digits + "0".repeat(exp + 1 - digits.length);
+	return negative ? "-" + text : text;
+}
+
 /** bswap_guids: erste 8 Bytes für LSX (LSLib ByteSwapGuid-Format) */
 function formatUuidForLsx(uuid: string): string {
 	const m = uuid.match(/^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})$/i);
@@ -218,14 +248,11 @@ function formatUuidForLsx(uuid: string): string {
 	return `${p1}-${p2}-${p3}-${m[4]}-${m[5]}`;
 }
 
-/** Vec2/Vec3/Vec4: jede Komponente mit formatFloat (LSLib C# float.ToString) */
-function formatVecForLsx(vecStr: string): string {
-	return vecStr
-		.split(/\s+/)
-		.map((s) => {
-			const n = parseFloat(s);
-			return Number.isFinite(n) ? formatFloat(n) : s;
-		})
+/** Mat2 … Mat4: Komponenten zeilenweise, durch Leerzeichen getrennt, jede mit formatFloat */
+function formatMatrixForLsx(mat: number[][]): string {
+	return mat
+		.flat()
+		.map((n) => formatFloat(n))
 		.join(" ");
 }
 
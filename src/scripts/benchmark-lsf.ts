@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+/**
+ * Benchmark LSFReader gegen Example-Daten
+ * Liest jede .lsf-Datei (Standard: Example/QuickSave_14_unpacked_lsf, sonst die übergebenen Dateien/Ordner)
+ * mehrfach und gibt beste/mittlere Parse-Zeit, Node-Anzahl und Nodes pro Sekunde aus.
+ * --runs n: Durchläufe je Datei (default: 5)
+ */
+
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { join, relative } from "node:path";
+import { LSFReader } from "../lsf/reader.js";
+import type { LSFNode } from "../lsf/types.js";
+
+const EXAMPLE_LSF = join(process.cwd(), "Example", "QuickSave_14_unpacked_lsf");
+
+function collectLsfFiles(path: string): string[] {
+	if (!statSync(path).isDirectory()) return [path];
+	return readdirSync(path, { recursive: true, encoding: "utf8" })
+		.filter((f) => f.toLowerCase().endsWith(".lsf"))
+		.sort()
+		.map((f) => join(path, f));
+}
+
+function countNodes(root: LSFNode): number {
+	let count = 0;
+	const stack = [root];
+	while (stack.length > 0) {
+		const node = stack.pop()!;
+		count++;
+		for (const child of node.children) stack.push(child);
+	}
+	return count;
+}
+
+function main() {
+	const args = process.argv.slice(2);
+	const runsIdx = args.indexOf("--runs");
+	const runs = runsIdx >= 0 ? Number(args[runsIdx + 1]) : 5;
+	if (!Number.isInteger(runs) || runs < 1) throw new Error(`Ungültige Anzahl Durchläufe: ${args[runsIdx + 1]}`);
+	const paths = args.filter((_, i) => runsIdx < 0 || (i !== runsIdx && i !== runsIdx + 1));
+	const files = (paths.length > 0 ? paths : [EXAMPLE_LSF]).flatMap(collectLsfFiles);
+	if (files.length === 0) throw new Error("Keine .lsf-Dateien gefunden");
+
+	console.log(`\n=== LSFReader Benchmark (${runs} Durchläufe je Datei) ===\n`);
+	console.log(`${"Datei".padEnd(48)} ${"KB".padStart(8)} ${"Nodes".padStart(8)} ${"best ms".padStart(9)} ${"avg ms".padStart(9)} ${"Nodes/s".padStart(10)}`);
+	let totalBest = 0;
+	for (const file of files) {
+		const data = readFileSync(file);
+		let nodes = 0;
+		const times: number[] = [];
+		for (let i = 0; i < runs; i++) {
+			const start = process.hrtime.bigint();
+			const root = new LSFReader(data).read();
+			times.push(Number(process.hrtime.bigint() - start) / 1e6);
+			nodes = countNodes(root);
+		}
+		const best = Math.min(...times);
+		const avg = times.reduce((a, b) => a + b, 0) / times.length;
+		totalBest += best;
+		const name = relative(paths.length > 0 ? process.cwd() : EXAMPLE_LSF, file);
+		console.log(
+			`${name.padEnd(48)} ${(data.length / 1024).toFixed(0).padStart(8)} ${String(nodes).padStart(8)} ${best.toFixed(1).padStart(9)} ${avg.toFixed(1).padStart(9)} ${Math.round(
+				nodes / (best / 1000)
+			)
+				.toString()
+				.padStart(10)}`
+		);
+	}
+	console.log(`\nGesamt (beste Zeiten): ${totalBest.toFixed(1)} ms`);
+}
+
+main();
@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+/**
+ * Erzeugt Example/lspk-fixtures: je LSPK-Version (7, 9, 10, 13, 15, 16, 18) ein kleines Package
+ * und expected.json mit den bekannten Header-Feldern, Einträgen, Inhalten und dem Header-MD5.
+ *
+ * Die Bytes werden hier Feld für Feld nach den LSLib-Strukturen (PackageFormat.cs: LSPKHeader7/10/13/15/16,
+ * FileEntry7/10/15/18) zusammengesetzt – bewusst ohne PackageBuilder, unpacker.ts oder hash.ts,
+ * damit verify-roundtrip --versions den Reader gegen ein unabhängig geschriebenes Layout prüft.
+ * Mit LSLib oder vom Spiel erzeugte Packages können die Dateien ersetzen, solange expected.json passt.
+ *
+ * node dist/scripts/make-lspk-fixtures.js [Zielordner]
+ */
+
+import { createHash } from "node:crypto";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { crc32, deflateSync } from "node:zlib";
+import { createRequire } from "node:module";
+const require = createRequire(import.meta.url);
+const lz4 = require("lz4");
+
+const SIGNATURE = "LSPK";
+const ALIGNMENT = 0x40;
+const PADDING_BYTE = 0xad;
+const FLAGS_NONE = 0x00;
+const FLAGS_ZLIB = 0x21; // Zlib + DefaultCompress
+const FLAGS_LZ4 = 0x22; // LZ4 + DefaultCompress
+const PRIORITY = 30;
+const HEADER_FLAGS = 0x02; // AllowMemoryMapping
+
+interface FixtureFile {
+	name: string;
+	flags: number;
+	content: Buffer;
+}
+
+/** Erwartete Werte je Fixture (wie LsvArchive sie liefern soll) */
+export interface LspkFixtureExpectation {
+	header: { version: number; numParts: number; flags?: number; priority?: number; md5?: string };
+	files: { name: string; flags: number; sizeOnDisk: number; uncompressedSize: number; archivePart: number; crc: number; content: string }[];
+}
+
+interface Stored {
+	file: FixtureFile;
+	data: Buffer;
+	/** Offset relativ zum Datenbereich */
+	offset: number;
+}
+
+function fixtureFiles(version: number): FixtureFile[] {
+	const files: FixtureFile[] = [
+		{ name: "meta.txt", flags: FLAGS_NONE, content: Buffer.from(`LSPK fixture v${version}\n`) },
+		{ name: "Data/zlib.txt", flags: FLAGS_ZLIB, content: Buffer.from("zlib ".repeat(40)) }
+	];
+	// FileEntry7 kennt keine Flags, dort gibt es nur unkomprimiert oder Zlib
+	if (version >= 10) files.push({ name: "Data/lz4.bin", flags: FLAGS_LZ4, content: Buffer.from("lz4 ".repeat(50)) });
+	return files;
+}
+
+function compressLz4Block(data: Buffer): Buffer {
+	const out = Buffer.alloc(lz4.encodeBound(data.length));
+	return out.subarray(0, lz4.encodeBlock(data, out));
+}
+
+function encode(file: FixtureFile): Buffer {
+	if (file.flags === FLAGS_ZLIB) return deflateSync(file.content);
+	if (file.flags === FLAGS_LZ4) return compressLz4Block(file.content);
+	return file.content;
+}
+
+/** Daten hintereinander, vor v15 auf 64 Byte mit 0xAD aufgefüllt (LSLib PackageWriter) */
+function layoutData(files: FixtureFile[], version: number): { stored: Stored[]; data: Buffer } {
+	const chunks: Buffer[] = [];
+	const stored: Stored[] = [];
+	let offset = 0;
+	for (const file of files) {
+		const data = encode(file);
+		stored.push({ file, data, offset });
+		chunks.push(data);
+		offset += data.length;
+		if (version <= 13) {
+			const padding = (ALIGNMENT - (offset % ALIGNMENT)) % ALIGNMENT;
+			chunks.push(Buffer.alloc(padding, PADDING_BYTE));
+			offset += padding;
+		}
+	}
+	return { stored, data: Buffer.concat(chunks) };
+}
+
+/** LSLib: unkomprimierte Einträge mit UncompressedSize 0 */
+function uncompressedSize(file: FixtureFile): number {
+	return file.flags === FLAGS_NONE ? 0 : file.content.length;
+}
+
+function entryName(name: string): Buffer {
+	const buf = Buffer.alloc(256);
+	buf.write(name, 0, "utf8");
+	return buf;
+}
+
+function fileEntry7(s: Stored): Buffer {
+	const entry = Buffer.alloc(272);
+	entryName(s.file.name).copy(entry, 0);
+	entry.writeUInt32LE(s.offset, 256);
+	entry.writeUInt32LE(s.data.length, 260);
+	entry.writeUInt32LE(uncompressedSize(s.file), 264);
+	entry.writeUInt32LE(0, 268);
+	return entry;
+}
+
+function fileEntry10(s: Stored, base: number): Buffer {
+	const entry = Buffer.alloc(280);
+	entryName(s.file.name).copy(entry, 0);
+	entry.writeUInt32LE(base + s.offset, 256);
+	entry.writeUInt32LE(s.data.length, 260);
+	entry.writeUInt32LE(uncompressedSize(s.file), 264);
+	entry.writeUInt32LE(0, 268);
+	entry.writeUInt32LE(s.file.flags, 272);
+	entry.writeUInt32LE(crc32(s.data), 276);
+	return entry;
+}
+
+function fileEntry15(s: Stored, base: number): Buffer {
+	const entry = Buffer.alloc(296);
+	entryName(s.file.name).copy(entry, 0);
+	entry.writeBigUInt64LE(BigInt(base + s.offset), 256);
+	entry.writeBigUInt64LE(BigInt(s.data.length), 264);
+	entry.writeBigUInt64LE(BigInt(uncompressedSize(s.file)), 272);
+	entry.writeUInt32LE(0, 280);
+	entry.writeUInt32LE(s.file.flags, 284);
+	entry.writeUInt32LE(crc32(s.data), 288);
+	return entry;
+}
+
+function fileEntry18(s: Stored, base: number): Buffer {
+	const entry = Buffer.alloc(272);
+	entryName(s.file.name).copy(entry, 0);
+	const offset = base + s.offset;
+	entry.writeUInt32LE(offset % 0x100000000, 256);
+	entry.writeUInt16LE(Math.floor(offset / 0x100000000), 260);
+	entry[262] = 0;
+	entry[263] = s.file.flags;
+	entry.writeUInt32LE(s.data.length, 264);
+	entry.writeUInt32LE(uncompressedSize(s.file), 268);
+	return entry;
+}
+
+/** LSLib ComputeArchiveHash: MD5 der Inhalte (vor v15 ordinal nach Namen sortiert), jedes Byte +1 */
+function packageMd5(files: FixtureFile[], version: number): Buffer {
+	const ordered = version >= 15 ? files : [...files].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+	const hash = createHash("md5");
+	for (const file of ordered) hash.update(file.content);
+	return Buffer.from(hash.digest().map((b) => (b + 1) & 0xff));
+}
+
+function buildPackage(version: number, files: FixtureFile[]): Buffer {
+	const { stored, data } = layoutData(files, version);
+	const md5 = packageMd5(files, version);
+
+	if (version === 7 || version === 9) {
+		// [LSPKHeader7][FileEntry7…][Daten], Offsets relativ zu DataOffset
+		const fileList = Buffer.concat(stored.map(fileEntry7));
+		const header = Buffer.alloc(21);
+		header.writeUInt32LE(version, 0);
+		header.writeUInt32LE(header.length + fileList.length, 4);
+		header.writeUInt32LE(1, 8);
+		header.writeUInt32LE(fileList.length, 12);
+		header[16] = 0;
+		header.writeUInt32LE(files.length, 17);
+		return Buffer.concat([header, fileList, data]);
+	}
+
+	if (version === 10) {
+		// [LSPK][LSPKHeader10][FileEntry10…][Daten], Offsets relativ zu DataOffset
+		const fileList = Buffer.concat(stored.map((s) => fileEntry10(s, 0)));
+		const header = Buffer.alloc(24);
+		header.write(SIGNATURE, 0, "latin1");
+		header.writeUInt32LE(version, 4);
+		header.writeUInt32LE(header.length + fileList.length, 8);
+		header.writeUInt32LE(fileList.length, 12);
+		header.writeUInt16LE(1, 16);
+		header[18] = HEADER_FLAGS;
+		header[19] = PRIORITY;
+		header.writeUInt32LE(files.length, 20);
+		return Buffer.concat([header, fileList, data]);
+	}
+
+	if (version === 13) {
+		// [Daten][NumFiles][LZ4(FileEntry10…)][LSPKHeader13][HeaderSize][LSPK], Offsets absolut
+		const compressedList = compressLz4Block(Buffer.concat(stored.map((s) => fileEntry10(s, 0))));
+		const numFiles = Buffer.alloc(4);
+		numFiles.writeUInt32LE(files.length, 0);
+		const header = Buffer.alloc(32);
+		header.writeUInt32LE(version, 0);
+		header.writeUInt32LE(data.length, 4);
+		header.writeUInt32LE(4 + compressedList.length, 8);
+		header.writeUInt16LE(1, 12);
+		header[14] = HEADER_FLAGS;
+		header[15] = PRIORITY;
+		md5.copy(header, 16);
+		const trailer = Buffer.alloc(8);
+		trailer.writeUInt32LE(header.length + trailer.length, 0);
+		trailer.write(SIGNATURE, 4, "latin1");
+		return Buffer.concat([data, numFiles, compressedList, header, trailer]);
+	}
+
+	// v15/v16/v18: [LSPK][LSPKHeader15/16][Daten][NumFiles][CompressedSize][LZ4(FileEntry15/18…)], Offsets absolut
+	const headerSize = version === 15 ? 38 : 40;
+	const entries = stored.map((s) => (version === 18 ? fileEntry18(s, headerSize) : fileEntry15(s, headerSize)));
+	const compressedList = compressLz4Block(Buffer.concat(entries));
+	const listHeader = Buffer.alloc(8);
+	listHeader.writeUInt32LE(files.length, 0);
+	listHeader.writeUInt32LE(compressedList.length, 4);
+	const header = Buffer.alloc(headerSize);
+	header.write(SIGNATURE, 0, "latin1");
+	header.writeUInt32LE(version, 4);
+	header.writeBigUInt64LE(BigInt(headerSize + data.length), 8);
+	header.writeUInt32LE(listHeader.length + compressedList.length, 16);
+	header[20] = HEADER_FLAGS;
+	header[21] = PRIORITY;
+	md5.copy(header, 22);
+	if (version !== 15) header.writeUInt16LE(1, 38);
+	return Buffer.concat([header, data, listHeader, compressedList]);
+}
+
+function expectation(version: number, files: FixtureFile[]): LspkFixtureExpectation {
+	const { stored } = layoutData(files, version);
+	return {
+		header: {
+			version,
+			numParts: 1,
+			...(version >= 10 ? { flags: HEADER_FLAGS, priority: PRIORITY } : {}),
+			...(version >= 13 ? { md5: packageMd5(files, version).toString("hex") } : {})
+		},
+		files: stored.map(({ file, data }) => ({
+			name: file.name,
+			flags: file.flags,
+			sizeOnDisk: data.length,
+			uncompressedSize: file.content.length,
+			archivePart: 0,
+			crc: version >= 10 && version <= 16 ? crc32(data) : 0,
+			content: file.content.toString("utf8")
+		}))
+	};
+}
+
+function main() {
+	const outDir = process.argv[2] ?? join(process.cwd(), "Example", "lspk-fixtures");
+	mkdirSync(outDir, { recursive: true });
+	const expected: Record<string, LspkFixtureExpectation> = {};
+	for (const version of [7, 9, 10, 13, 15, 16, 18]) {
+		const files = fixtureFiles(version);
+		const name = `v${version}.pak`;
+		writeFileSync(join(outDir, name), buildPackage(version, files));
+		expected[name] = expectation(version, files);
+		console.log(`  ${name}`);
+	}
+	writeFileSync(join(outDir, "expected.json"), JSON.stringify(expected, null, "\t") + "\n");
+	console.log(`Fixtures in ${outDir}`);
+}
+
+main();
@@ -4,21 +4,38 @@
  * --unpack: LSV unpack → Byte-Vergleich mit QuickSave_14_unpacked_lsf (LSLib-Referenz)
  * LSF: Example/QuickSave_14_unpacked_lsf/*.lsf → LSX → LSF → Byte-Vergleich
  * LSV Roundtrip: unpack → pack → Byte-Vergleich
+ * --versions: QuickSave_14_unpacked_lsf in jede LSPK-Version packen → entpacken → Byte-Vergleich,
+ *   aus dem entpackten Ordner per Manifest (strict) byte-identisch neu packen,
+ *   danach einen Eintrag per replaceEntries ersetzen und erneut prüfen;
+ *   außerdem Example/lspk-fixtures (je Version ein fremd geschriebenes Package) gegen expected.json lesen
+ * --formats: LSF → LSB → LSF und LSF → LSJ → LSF ergeben dasselbe LSX wie das Original,
+ *   LSFReader-Cursor (roots/select/walk) liefern denselben Baum wie read()
  */
 
 import { readFileSync, writeFileSync, readdirSync, mkdirSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { LSFReader } from "../lsf/reader.js";
-import { writeLsf } from "../lsf/writer.js";
+import { writeLsf, writeLsfToBuffer } from "../lsf/writer.js";
+import type { LsfVersion } from "../lsf/writer.js";
+import type { LSFNode } from "../lsf/types.js";
+import type { LSFNodeCursor } from "../lsf/cursor.js";
+import { LSBReader } from "../lsb/reader.js";
+import { writeLsbToBuffer } from "../lsb/writer.js";
+import { convertLsfToLsj } from "../lsj/lsj-writer.js";
+import { parseLsj } from "../lsj/lsj-reader.js";
 import { parseLsx } from "../lsx/lsx-reader.js";
 import { convertLsfToLsx } from "../lsx/lsx-writer.js";
-import { unpackLsv } from "../lsv/unpacker.js";
-import { packLsv } from "../lsv/packer.js";
+import { unpackLsv, unpackLsvWithReport } from "../lsv/unpacker.js";
+import { packLsv, replaceEntries } from "../lsv/packer.js";
+import { LsvArchive, verifyPackageHash } from "../lsv/archive.js";
+import { PackageVersion, getPartPath } from "../lsv/types.js";
+import type { LspkFixtureExpectation } from "./make-lspk-fixtures.js";
 
 const EXAMPLE = join(process.cwd(), "Example");
 const UNPACKED_LSF = join(EXAMPLE, "QuickSave_14_unpacked_lsf");
 const UNPACKED_LSX = join(EXAMPLE, "QuickSave_14_unpacked_lsx");
 const ORIGINAL_LSV = join(EXAMPLE, "QuickSave_14", "QuickSave_14.lsv");
+const LSPK_FIXTURES = join(EXAMPLE, "lspk-fixtures");
 const TMP = join(process.cwd(), "tmp-verify");
 
 function collectLsfFiles(dir: string, base = "", quick = false): string[] {
@@ -118,6 +135,90 @@ function verifyLsfToLsx(quick = false): boolean {
 	return diff === 0;
 }
 
+/** LSF über LSB bzw. LSJ und zurück zu LSF: LSX muss mit dem des Originals übereinstimmen */
+function verifyResourceFormats(quick = false): boolean {
+	console.log("\n=== LSF → LSB/LSJ → LSF (LSX-Vergleich) ===\n");
+	const lsfFiles = collectLsfFiles(UNPACKED_LSF, "", quick);
+	const viaLsb = (root: LSFNode, version: LsfVersion) => new LSBReader(writeLsbToBuffer(root, version)).read();
+	const viaLsj = (root: LSFNode, version: LsfVersion) => parseLsj(convertLsfToLsj(root, version)).root;
+	let failed = 0;
+
+	for (const rel of lsfFiles) {
+		const reader = new LSFReader(readFileSync(join(UNPACKED_LSF, rel)));
+		const root = reader.read();
+		const version = reader.getEngineVersion();
+		const refLsx = convertLsfToLsx(root, version);
+		const opts = version.major >= 4 ? undefined : { metadataFormat: 0 };
+		for (const [label, convert] of [
+			["LSB", viaLsb],
+			["LSJ", viaLsj]
+		] as const) {
+			const back = new LSFReader(writeLsfToBuffer(convert(root, version), version, opts));
+			if (convertLsfToLsx(back.read(), back.getEngineVersion()) === refLsx) {
+				console.log(`  OK  ${rel} via ${label}`);
+			} else {
+				console.log(`  DIFF ${rel} via ${label}`);
+				failed++;
+			}
+		}
+	}
+
+	console.log(`\nLSB/LSJ: ${lsfFiles.length * 2 - failed} OK, ${failed} abweichend`);
+	return failed === 0;
+}
+
+/** Baum nur über die Cursor-Zugriffe aufbauen (ohne toNode) */
+function cursorToNode(cursor: LSFNodeCursor): LSFNode {
+	const node: LSFNode = { name: cursor.name, attributes: {}, children: cursor.children().map(cursorToNode) };
+	if (cursor.key !== undefined) node.key = cursor.key;
+	for (const name of cursor.attributeNames()) node.attributes[name] = cursor.attribute(name)!;
+	return node;
+}
+
+/** LSFReader-Cursor gegen read(): gleicher Baum, walk besucht jeden Node, select findet alle Kinder der Regionen */
+function verifyLsfCursor(quick = false): boolean {
+	console.log("\n=== LSFReader Cursor (roots/select/walk) gegen read() ===\n");
+	const lsfFiles = collectLsfFiles(UNPACKED_LSF, "", quick);
+	let failed = 0;
+
+	for (const rel of lsfFiles) {
+		const data = readFileSync(join(UNPACKED_LSF, rel));
+		const reader = new LSFReader(data);
+		const regions = reader.roots();
+		const version = reader.getEngineVersion();
+		const fromCursor = regions.length === 1 ? cursorToNode(regions[0]) : { name: "save", attributes: {}, children: regions.map(cursorToNode) };
+		const root = new LSFReader(data).read();
+		const regionNodes = root.name === "save" && regions.length !== 1 ? root.children : [root];
+
+		let countRead = 0;
+		const stack = [...regionNodes];
+		while (stack.length > 0) {
+			countRead++;
+			stack.push(...stack.pop()!.children);
+		}
+		let countWalk = 0;
+		reader.walk(() => {
+			countWalk++;
+		});
+		const selected = reader.select("*/*").length;
+		const expectedSelected = regionNodes.reduce((n, region) => n + region.children.length, 0);
+
+		const problems: string[] = [];
+		if (convertLsfToLsx(fromCursor, version) !== convertLsfToLsx(root, version)) problems.push("Baum");
+		if (countWalk !== countRead) problems.push(`walk ${countWalk} statt ${countRead} Nodes`);
+		if (selected !== expectedSelected) problems.push(`select("*/*") ${selected} statt ${expectedSelected}`);
+		if (problems.length === 0) {
+			console.log(`  OK  ${rel}`);
+		} else {
+			console.log(`  DIFF ${rel}: ${problems.join(", ")}`);
+			failed++;
+		}
+	}
+
+	console.log(`\nCursor: ${lsfFiles.length - failed} OK, ${failed} abweichend`);
+	return failed === 0;
+}
+
 function collectAllFiles(dir: string, base: string = ""): string[] {
 	const files: string[] = [];
 	const opts = { withFileTypes: true } as const;
@@ -202,10 +303,136 @@ function verifyLsvRoundtrip() {
 	return match;
 }
 
+/** Ersten Eintrag ersetzen; alle anderen müssen unverändert bleiben, CRC und MD5 gültig */
+function verifyReplaceEntries(packPath: string, refFiles: string[], hasMd5: boolean): boolean {
+	const [replaced] = refFiles;
+	const content = Buffer.concat([readFileSync(join(UNPACKED_LSF, replaced)), Buffer.from("replaced")]);
+	replaceEntries(packPath, { [replaced]: content });
+
+	const archive = new LsvArchive(packPath);
+	try {
+		if (archive.check().length > 0 || !archive.read(replaced).equals(content)) return false;
+		const unchanged = refFiles.slice(1).every((rel) => archive.read(rel).equals(readFileSync(join(UNPACKED_LSF, rel))));
+		return unchanged && (!hasMd5 || archive.verifyHash().match);
+	} finally {
+		archive.close();
+	}
+}
+
+/** Entpackten Ordner mit __manifest__.json (strict) neu packen; alle Parts müssen byte-identisch sein */
+function verifyManifestRepack(packPath: string, unpackDir: string): boolean {
+	const repackPath = packPath.replace(/\.lsv$/, "_repack.lsv");
+	try {
+		packLsv(unpackDir, repackPath, { strict: true });
+	} catch (err) {
+		console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+		return false;
+	}
+	for (let part = 0; existsSync(getPartPath(packPath, part)); part++) {
+		if (!existsSync(getPartPath(repackPath, part))) return false;
+		if (!readFileSync(getPartPath(packPath, part)).equals(readFileSync(getPartPath(repackPath, part)))) return false;
+	}
+	return true;
+}
+
+/**
+ * Packages, die nicht von PackageBuilder stammen: Header-Felder, File-List, Inhalte und Header-MD5
+ * müssen den bekannten Werten aus expected.json entsprechen
+ */
+function verifyLspkFixtures(): boolean {
+	console.log("\n=== LSPK-Fixtures (Reader gegen bekannte Werte) ===\n");
+	const expectedPath = join(LSPK_FIXTURES, "expected.json");
+	if (!existsSync(expectedPath)) {
+		console.log("  Übersprungen: Example/lspk-fixtures/expected.json nicht gefunden");
+		return true;
+	}
+	const expected: Record<string, LspkFixtureExpectation> = JSON.parse(readFileSync(expectedPath, "utf8"));
+	let failed = 0;
+
+	for (const [name, want] of Object.entries(expected)) {
+		const problems: string[] = [];
+		try {
+			const archive = new LsvArchive(join(LSPK_FIXTURES, name));
+			try {
+				const { header } = archive;
+				for (const [field, value] of Object.entries(want.header)) {
+					const actual = field === "md5" ? header.md5?.toString("hex") : header[field as keyof typeof header];
+					if (actual !== value) problems.push(`Header.${field} ${String(actual)} statt ${value}`);
+				}
+				const entries = archive.entries();
+				if (entries.map((f) => f.name).join("|") !== want.files.map((f) => f.name).join("|")) {
+					problems.push(`Einträge ${entries.map((f) => f.name).join(", ")}`);
+				}
+				for (const file of want.files) {
+					const entry = entries.find((f) => f.name === file.name);
+					if (!entry) continue;
+					for (const field of ["flags", "sizeOnDisk", "uncompressedSize", "archivePart", "crc"] as const) {
+						if (entry[field] !== file[field]) problems.push(`${file.name}.${field} ${entry[field]} statt ${file[field]}`);
+					}
+					if (archive.read(file.name).toString("utf8") !== file.content) problems.push(`${file.name}: Inhalt abweichend`);
+				}
+				if (want.header.md5 !== undefined && !archive.verifyHash().match) problems.push("MD5 über die Inhalte stimmt nicht");
+			} finally {
+				archive.close();
+			}
+		} catch (err) {
+			problems.push(err instanceof Error ? err.message : String(err));
+		}
+		if (problems.length === 0) {
+			console.log(`  OK  ${name} (${want.files.length} Dateien)`);
+		} else {
+			console.log(`  FAIL ${name}: ${problems.join("; ")}`);
+			failed++;
+		}
+	}
+
+	console.log(`\nLSPK-Fixtures: ${Object.keys(expected).length - failed} OK, ${failed} fehlgeschlagen`);
+	return failed === 0;
+}
+
+/** Alle LSPK-Versionen: pack → unpack → Byte-Vergleich (mit Multi-Part, außer v15), CRC und MD5 */
+function verifyLsvVersions(): boolean {
+	console.log("\n=== LSPK-Versionen (pack → unpack) ===\n");
+	mkdirSync(TMP, { recursive: true });
+	const refFiles = collectAllFiles(UNPACKED_LSF);
+	const versions = Object.values(PackageVersion).filter((v): v is number => typeof v === "number");
+	let failed = 0;
+
+	for (const version of versions) {
+		const packPath = join(TMP, `v${version}.lsv`);
+		const unpackDir = join(TMP, `v${version}`);
+		// Parts erzwingen, damit auch Part-Offsets geprüft werden
+		const maxPartSize = version === PackageVersion.V15 ? undefined : 512 * 1024;
+		packLsv(UNPACKED_LSF, packPath, { version, maxPartSize });
+		// Stufe ermitteln: das Manifest dient unten dem byte-identischen Repack (v13 speichert sie nicht)
+		const { issues } = unpackLsvWithReport(packPath, unpackDir, { continueOnError: true, detectLevels: true });
+
+		const diffs = refFiles.filter((rel) => !existsSync(join(unpackDir, rel)) || !readFileSync(join(UNPACKED_LSF, rel)).equals(readFileSync(join(unpackDir, rel))));
+		const hasMd5 = version >= PackageVersion.V13;
+		const hash = hasMd5 ? verifyPackageHash(packPath) : undefined;
+		const repackOk = verifyManifestRepack(packPath, unpackDir);
+		const replaceOk = verifyReplaceEntries(packPath, refFiles, hasMd5);
+		const ok = issues.length === 0 && diffs.length === 0 && (!hash || hash.match) && repackOk && replaceOk;
+		if (ok) {
+			console.log(`  OK  v${version} (${refFiles.length} Dateien${hash ? ", MD5 OK" : ""}, Manifest-Repack OK, replaceEntries OK)`);
+		} else {
+			console.log(
+				`  FAIL v${version}: ${issues.length} fehlerhaft, ${diffs.length} abweichend${hash && !hash.match ? ", MD5 falsch" : ""}${repackOk ? "" : ", Manifest-Repack abweichend"}${replaceOk ? "" : ", replaceEntries fehlerhaft"}`
+			);
+			failed++;
+		}
+	}
+
+	console.log(`\nLSPK-Versionen: ${versions.length - failed} OK, ${failed} fehlgeschlagen`);
+	return failed === 0;
+}
+
 async function main() {
 	const quick = process.argv.includes("--quick");
 	const unpackOnly = process.argv.includes("--unpack");
 	const lsf2lsxOnly = process.argv.includes("--lsf2lsx");
+	const versionsOnly = process.argv.includes("--versions");
+	const formatsOnly = process.argv.includes("--formats");
 	console.log("pLarianSaveTools – Verifikation");
 	console.log("Example-Pfad:", EXAMPLE);
 
@@ -216,6 +443,28 @@ async function main() {
 		process.exit(unpackOk ? 0 : 1);
 	}
 
+	if (versionsOnly) {
+		const versionsOk = verifyLsvVersions();
+		const fixturesOk = verifyLspkFixtures();
+		console.log("\n--- Ergebnis ---");
+		console.log("LSPK-Versionen:", versionsOk ? "PASS" : "FAIL");
+		console.log("LSPK-Fixtures:", fixturesOk ? "PASS" : "FAIL");
+		process.exit(versionsOk && fixturesOk ? 0 : 1);
+	}
+
+	if (formatsOnly) {
+		if (!existsSync(UNPACKED_LSF)) {
+			console.error("Example/QuickSave_14_unpacked_lsf nicht gefunden");
+			process.exit(1);
+		}
+		const formatsOk = verifyResourceFormats(quick);
+		const cursorOk = verifyLsfCursor(quick);
+		console.log("\n--- Ergebnis ---");
+		console.log("LSB/LSJ Roundtrip:", formatsOk ? "PASS" : "FAIL");
+		console.log("LSF Cursor:", cursorOk ? "PASS" : "FAIL");
+		process.exit(formatsOk && cursorOk ? 0 : 1);
+	}
+
 	if (lsf2lsxOnly) {
 		if (!existsSync(UNPACKED_LSF)) {
 			console.error("Example/QuickSave_14_unpacked_lsf nicht gefunden");
@@ -234,16 +483,24 @@ async function main() {
 
 	const lsfOk = verifyLsfRoundtrip(quick);
 	const lsxOk = verifyLsfToLsx(quick);
+	const formatsOk = verifyResourceFormats(quick);
+	const cursorOk = verifyLsfCursor(quick);
 	const unpackOk = verifyLsvUnpack();
 	const lsvOk = verifyLsvRoundtrip();
+	const versionsOk = verifyLsvVersions();
+	const fixturesOk = verifyLspkFixtures();
 
 	console.log("\n--- Ergebnis ---");
 	console.log("LSF Roundtrip:", lsfOk ? "PASS" : "FAIL");
 	console.log("LSF→LSX:", lsxOk ? "PASS" : "FAIL");
+	console.log("LSB/LSJ Roundtrip:", formatsOk ? "PASS" : "FAIL");
+	console.log("LSF Cursor:", cursorOk ? "PASS" : "FAIL");
 	console.log("LSV Unpack:", unpackOk ? "PASS" : "FAIL");
 	console.log("LSV Roundtrip:", lsvOk ? "PASS" : "FAIL");
+	console.log("LSPK-Versionen:", versionsOk ? "PASS" : "FAIL");
+	console.log("LSPK-Fixtures:", fixturesOk ? "PASS" : "FAIL");
 
-	process.exit(lsfOk && lsxOk && unpackOk && lsvOk ? 0 : 1);
+	process.exit(lsfOk && lsxOk && formatsOk && cursorOk && unpackOk && lsvOk && versionsOk && fixturesOk ? 0 : 1);
 }
 
 main().catch((e) => {
@@ -0,0 +1,124 @@
+/**
+ * WorkerPool – verteilt Kompression und LSF/LSX-Konvertierung auf Worker-Threads
+ * Mit jobs = 1 laufen die Aufgaben ohne Worker im Haupt-Thread.
+ */
+
+import { availableParallelism } from "node:os";
+import { Worker } from "node:worker_threads";
+import { asBuffer, runTask } from "./tasks.js";
+import type { TaskResults, WorkerTask } from "./tasks.js";
+
+interface PendingTask {
+	id: number;
+	task: WorkerTask;
+	resolve: (result: TaskResults[keyof TaskResults]) => void;
+	reject: (err: Error) => void;
+}
+
+/** Default für --jobs: Anzahl der verfügbaren CPU-Kerne */
+export function defaultJobs(): number {
+	return availableParallelism();
+}
+
+export class WorkerPool {
+	public readonly size: number;
+	private readonly workers: Worker[] = [];
+	private readonly idle: Worker[] = [];
+	private readonly queue: PendingTask[] = [];
+	private readonly running = new Map<Worker, PendingTask>();
+	private nextId = 0;
+
+	constructor(jobs?: number) {
+		const size = jobs ?? defaultJobs();
+		if (!Number.isInteger(size) || size < 1) {
+			throw new Error(`Ungültige Anzahl Jobs: ${jobs}`);
+		}
+		this.size = size;
+	}
+
+	public run<T extends WorkerTask>(task: T): Promise<TaskResults[T["type"]]>;
+	public run(task: WorkerTask): Promise<TaskResults[keyof TaskResults]> {
+		if (this.size === 1) {
+			return new Promise((resolve) => resolve(runTask(task)));
+		}
+		return new Promise((resolve, reject) => {
+			this.queue.push({ id: this.nextId++, task, resolve, reject });
+			this.dispatch();
+		});
+	}
+
+	/** Alle Worker beenden; wartende und laufende Aufgaben werden abgelehnt */
+	public async close(): Promise<void> {
+		const err = new Error("WorkerPool wurde geschlossen");
+		for (const pending of this.queue.splice(0)) pending.reject(err);
+		for (const pending of this.running.values()) pending.reject(err);
+		this.running.clear();
+		const workers = this.workers.splice(0);
+		this.idle.length = 0;
+		await Promise.all(workers.map((worker) => worker.terminate()));
+	}
+
+	private dispatch(): void {
+		while (this.queue.length > 0) {
+			const worker = this.idle.pop() ?? (this.workers.length < this.size ? this.spawn() : undefined);
+			if (!worker) return;
+			const pending = this.queue.shift()!;
+			this.running.set(worker, pending);
+			worker.postMessage({ id: pending.id, task: pending.task });
+		}
+	}
+
+	private spawn(): Worker {
+		const worker = new Worker(new URL("./worker.js", import.meta.url));
+		worker.on("message", (message: { id: number; result?: Uint8Array | TaskResults["lsf-to-lsx"]; error?: string }) => {
+			const pending = this.running.get(worker);
+			this.running.delete(worker);
+			this.idle.push(worker);
+			if (pending) {
+				if (message.error !== undefined) {
+					pending.reject(new Error(message.error));
+				} else {
+					const { result } = message;
+					// Buffer kommen als Uint8Array zurück
+					pending.resolve(result instanceof Uint8Array ? asBuffer(result) : result!);
+				}
+			}
+			this.dispatch();
+		});
+		worker.on("error", (err) => this.retire(worker, err));
+		worker.on("exit", (code) => this.retire(worker, new Error(`Worker beendet (Exit-Code ${code})`)));
+		this.workers.push(worker);
+		return worker;
+	}
+
+	/** Worker ist unbrauchbar: aktuelle Aufgabe abbrechen, bei Bedarf neuen starten (nach "error" folgt noch "exit") */
+	private retire(worker: Worker, err: Error): void {
+		const pending = this.running.get(worker);
+		this.running.delete(worker);
+		const index = this.workers.indexOf(worker);
+		if (index >= 0) this.workers.splice(index, 1);
+		const idleIndex = this.idle.indexOf(worker);
+		if (idleIndex >= 0) this.idle.splice(idleIndex, 1);
+		pending?.reject(err);
+		this.dispatch();
+	}
+}
+
+/**
+ * Aufgaben parallel ausführen, Ergebnisse aber strikt in Eingabe-Reihenfolge verarbeiten.
+ * Es sind höchstens 2 × pool.size Ergebnisse gleichzeitig im Speicher.
+ */
+export async function runOrdered<I, R>(pool: WorkerPool, items: I[], start: (item: I) => Promise<R>, consume: (result: R, item: I) => void): Promise<void> {
+	const window = pool.size * 2;
+	const inFlight: Promise<R>[] = [];
+	let next = 0;
+	for (let i = 0; i < items.length; i++) {
+		while (next < items.length && next < i + window) {
+			const promise = start(items[next++]);
+			// Ablehnungen erst beim await behandeln, nicht als unhandled rejection
+			promise.catch(() => undefined);
+			inFlight.push(promise);
+		}
+		consume(await inFlight.shift()!, items[i]);
+	}
+}
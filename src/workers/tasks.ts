@@ -0,0 +1,56 @@
+/**
+ * Aufgaben für den Worker-Pool
+ * Werden im Worker-Thread oder – bei jobs = 1 – direkt im Haupt-Thread ausgeführt.
+ */
+
+import { compress } from "../lsv/compression.js";
+import { detectCompressionFlags } from "../lsv/manifest.js";
+import { checkFileEntry } from "../lsv/unpacker.js";
+import type { PackagedFileInfo } from "../lsv/types.js";
+import { LSFReader } from "../lsf/reader.js";
+import { writeLsfToBuffer } from "../lsf/writer.js";
+import { convertLsfToLsx } from "../lsx/lsx-writer.js";
+import { parseLsx } from "../lsx/lsx-reader.js";
+
+export type WorkerTask =
+	/** Eintrag für ein Package komprimieren */
+	| { type: "compress"; data: Uint8Array; flags: number }
+	/** LSX-Datei lesen und zu LSF serialisieren (wie packLsvFromLsx) */
+	| { type: "lsx-to-lsf"; path: string }
+	/**
+	 * Rohdaten eines Package-Eintrags prüfen, dekomprimieren und zu LSX konvertieren;
+	 * liefert zusätzlich die Kompressions-Flags fürs Manifest (v13 mit detectLevels: Stufe ermittelt)
+	 */
+	| { type: "lsf-to-lsx"; file: PackagedFileInfo; raw: Uint8Array; version: number; detectLevels?: boolean };
+
+export interface TaskResults {
+	compress: Buffer;
+	"lsx-to-lsf": Buffer;
+	"lsf-to-lsx": { lsx: string; flags: number };
+}
+
+/** Uint8Array aus postMessage ohne Kopie wieder als Buffer */
+export function asBuffer(data: Uint8Array): Buffer {
+	return Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+export function runTask<T extends WorkerTask>(task: T): TaskResults[T["type"]];
+export function runTask(task: WorkerTask): TaskResults[keyof TaskResults] {
+	switch (task.type) {
+		case "compress":
+			return compress(asBuffer(task.data), task.flags);
+		case "lsx-to-lsf": {
+			const { root, version } = parseLsx(task.path);
+			const options = version.major >= 4 ? undefined : { metadataFormat: 0 };
+			return writeLsfToBuffer(root, version, options);
+		}
+		case "lsf-to-lsx": {
+			const { content, issue } = checkFileEntry(task.file, asBuffer(task.raw));
+			if (issue) throw new Error(issue.message);
+			const reader = new LSFReader(content);
+			const root = reader.read();
+			const flags = task.detectLevels ? detectCompressionFlags(task.file, content, task.version) : task.file.flags;
+			return { lsx: convertLsfToLsx(root, reader.getEngineVersion()), flags };
+		}
+	}
+}
@@ -0,0 +1,15 @@
+/**
+ * Worker-Thread für WorkerPool: führt je Nachricht eine Aufgabe aus und antwortet mit Ergebnis oder Fehler
+ */
+
+import { parentPort } from "node:worker_threads";
+import { runTask } from "./tasks.js";
+import type { WorkerTask } from "./tasks.js";
+
+parentPort?.on("message", ({ id, task }: { id: number; task: WorkerTask }) => {
+	try {
+		parentPort?.postMessage({ id, result: runTask(task) });
+	} catch (err) {
+		parentPort?.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+	}
+});